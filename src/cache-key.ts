@@ -0,0 +1,54 @@
+import { WILDCARD } from "./cache.constants";
+import { CacheKey, CacheKeyPattern, CacheKeySegment } from "./cache.types";
+
+const compareKeys = ([a]: [string, unknown], [b]: [string, unknown]) =>
+  a < b ? -1 : a > b ? 1 : 0;
+
+/**
+ * JSON.stringify with the properties of every plain object sorted, so that
+ * objects with the same content serialize the same way regardless of property order.
+ * @param {unknown} value - The value to serialize.
+ * @returns {string} The stable JSON representation.
+ */
+export const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_key, current: unknown) =>
+    current && typeof current === "object" && !Array.isArray(current)
+      ? Object.fromEntries(Object.entries(current).sort(compareKeys))
+      : current
+  );
+
+/**
+ * Hashes a key segment. Strings and numbers are kept as they are, object and
+ * array segments are serialized with a stable deep hash, URI-encoded so it
+ * never contains the ":" separator of persisted keys.
+ * @param {CacheKeySegment} segment - The key segment.
+ * @returns {string} The hashed segment.
+ */
+export const hashKeySegment = (segment: CacheKeySegment): string =>
+  typeof segment === "object"
+    ? encodeURIComponent(stableStringify(segment))
+    : String(segment);
+
+/**
+ * Hashes a whole key, e.g. ["todos", { status: "active" }] becomes
+ * 'todos:%7B%22status%22%3A%22active%22%7D'.
+ * @param {CacheKey} key - The key.
+ * @returns {string} The hashed key.
+ */
+export const hashKey = (key: CacheKey): string =>
+  key.map(hashKeySegment).join(":");
+
+/**
+ * Checks if a key starts with the given prefix. WILDCARD segments match any
+ * value and the other segments are compared by their hash, the way persistent
+ * stores serialize them.
+ * @param {CacheKeyPattern} prefix - The key prefix.
+ * @param {CacheKey} key - The key to check.
+ * @returns {boolean} True if the key is the prefix itself or one of its descendants.
+ */
+export const isKeyPrefix = (prefix: CacheKeyPattern, key: CacheKey): boolean =>
+  prefix.length <= key.length &&
+  prefix.every(
+    (part, i) =>
+      part === WILDCARD || hashKeySegment(part) === hashKeySegment(key[i])
+  );
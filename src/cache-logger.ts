@@ -1,19 +1,142 @@
+import { CacheKeyPattern, CacheOptions } from "./cache.types";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Structured log entry: an event name, the key it concerns and any extra fields.
+ */
+export interface LogEvent {
+  event: string;
+  key?: CacheKeyPattern;
+  [field: string]: unknown;
+}
+
 /**
  * Logger interface, allows custom logging
  */
 export interface Logger {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  log: (...args: any[]) => void;
+  debug(entry: LogEvent): void;
+  info(entry: LogEvent): void;
+  warn(entry: LogEvent): void;
+  error(entry: LogEvent): void;
+}
+
+const LOG_LEVELS: (LogLevel | "silent")[] = [
+  "debug",
+  "info",
+  "warn",
+  "error",
+  "silent",
+];
+
+/**
+ * Sink with console-style methods taking a message and extra arguments.
+ */
+export interface ConsoleLikeSink {
+  debug(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
 }
 
+/**
+ * Sink with pino-style methods taking the fields first and the message second.
+ */
+export interface PinoLikeSink {
+  debug(fields: object, message?: string): void;
+  info(fields: object, message?: string): void;
+  warn(fields: object, message?: string): void;
+  error(fields: object, message?: string): void;
+}
+
+/**
+ * Forwards log entries to a console-style sink, as `[query-with-cache] event` followed by the fields.
+ * @param {ConsoleLikeSink} sink - The sink, e.g. console.
+ * @returns {Logger} The logger.
+ */
+export const createConsoleLogger = (sink: ConsoleLikeSink): Logger => {
+  const forward =
+    (level: LogLevel) =>
+    ({ event, ...fields }: LogEvent) =>
+      sink[level](`[query-with-cache] ${event}`, fields);
+
+  return {
+    debug: forward("debug"),
+    info: forward("info"),
+    warn: forward("warn"),
+    error: forward("error"),
+  };
+};
+
+/**
+ * Forwards log entries to a pino-style sink, with the event as the message.
+ * @param {PinoLikeSink} sink - The sink, e.g. a pino logger.
+ * @returns {Logger} The logger.
+ */
+export const createPinoLogger = (sink: PinoLikeSink): Logger => {
+  const forward =
+    (level: LogLevel) =>
+    ({ event, ...fields }: LogEvent) =>
+      sink[level]({ event, ...fields }, event);
+
+  return {
+    debug: forward("debug"),
+    info: forward("info"),
+    warn: forward("warn"),
+    error: forward("error"),
+  };
+};
+
 /**
  * Default console logger
  */
 export class ConsoleLogger implements Logger {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  log(...args: any[]): void {
+  private log(level: LogLevel, { event, ...fields }: LogEvent): void {
     const timestamp = new Date().toISOString();
     // eslint-disable-next-line no-console
-    console.log(`[${timestamp}]`, ...args);
+    console[level](`[${timestamp}] [query-with-cache] ${event}`, fields);
+  }
+
+  debug(entry: LogEvent): void {
+    this.log("debug", entry);
+  }
+
+  info(entry: LogEvent): void {
+    this.log("info", entry);
+  }
+
+  warn(entry: LogEvent): void {
+    this.log("warn", entry);
+  }
+
+  error(entry: LogEvent): void {
+    this.log("error", entry);
   }
 }
+
+/**
+ * Creates the logger of a store: the configured logger (or a ConsoleLogger),
+ * dropping the entries below the store's log level. The level defaults to
+ * "warn", or "debug" when the debug option is set.
+ * @param {Pick<CacheOptions, "logger" | "logLevel" | "debug">} options - The store options.
+ * @returns {Logger} The store logger.
+ */
+export const createStoreLogger = ({
+  logger = new ConsoleLogger(),
+  logLevel,
+  debug,
+}: Pick<CacheOptions, "logger" | "logLevel" | "debug">): Logger => {
+  const minimum = LOG_LEVELS.indexOf(logLevel ?? (debug ? "debug" : "warn"));
+  const forward = (level: LogLevel) => (entry: LogEvent) => {
+    if (LOG_LEVELS.indexOf(level) >= minimum) {
+      logger[level](entry);
+    }
+  };
+
+  return {
+    debug: forward("debug"),
+    info: forward("info"),
+    warn: forward("warn"),
+    error: forward("error"),
+  };
+};
@@ -0,0 +1,53 @@
+import { isKeyPrefix } from "./cache-key";
+import { CacheKey, CacheSchema, StoredCacheEntry } from "./cache.types";
+
+/**
+ * Finds the schema of a key, preferring the most specific prefix.
+ * @param {CacheSchema[]} schemas - The configured schemas.
+ * @param {CacheKey} key - The key of the entry.
+ * @returns {CacheSchema | undefined} The schema, if any prefix matches.
+ */
+export const findSchema = (
+  schemas: CacheSchema[] = [],
+  key: CacheKey
+): CacheSchema | undefined =>
+  schemas
+    .filter((schema) => isKeyPrefix(schema.queryKey, key))
+    .reduce<
+      CacheSchema | undefined
+    >((found, schema) => (!found || schema.queryKey.length > found.queryKey.length ? schema : found), undefined);
+
+const isValid = (schema: CacheSchema, data: unknown): boolean =>
+  !schema.validate || schema.validate(data);
+
+/**
+ * Checks a read entry against its schema.
+ * @param {CacheSchema | undefined} schema - The schema of the entry key.
+ * @param {StoredCacheEntry<T>} entry - The read entry.
+ * @returns {StoredCacheEntry<T> | null} The entry itself when it matches, a migrated copy, or null when it must be dropped.
+ */
+export const applySchema = <T>(
+  schema: CacheSchema | undefined,
+  entry: StoredCacheEntry<T>
+): StoredCacheEntry<T> | null => {
+  if (
+    !schema ||
+    (entry.schemaVersion === schema.schemaVersion &&
+      isValid(schema, entry.data))
+  ) {
+    return entry;
+  }
+
+  if (!schema.migrate) {
+    return null;
+  }
+
+  try {
+    const data = schema.migrate(entry.data, entry.schemaVersion) as T;
+    return isValid(schema, data)
+      ? { ...entry, data, schemaVersion: schema.schemaVersion }
+      : null;
+  } catch {
+    return null;
+  }
+};
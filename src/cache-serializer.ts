@@ -0,0 +1,88 @@
+import { StoredCacheEntry } from "./cache.types";
+
+/**
+ * Converts cache entries to and from the strings written by persistent stores.
+ */
+export interface CacheSerializer {
+  serialize(value: unknown): string;
+  deserialize<T = unknown>(payload: string): T;
+}
+
+// Property marking the values encoded by the default serializer
+const TYPE_TAG = "__queryWithCacheType";
+
+interface TaggedValue {
+  [TYPE_TAG]: "Date" | "Map" | "Set" | "BigInt";
+  value: unknown;
+}
+
+const isTaggedValue = (value: unknown): value is TaggedValue =>
+  typeof value === "object" &&
+  value !== null &&
+  TYPE_TAG in value &&
+  "value" in value;
+
+/**
+ * JSON serializer that round-trips Date, Map, Set and BigInt values.
+ */
+export const defaultSerializer: CacheSerializer = {
+  serialize(value: unknown): string {
+    return JSON.stringify(
+      value,
+      function (this: Record<string, unknown>, key: string, current: unknown) {
+        // Dates are already converted by toJSON, the original value is read from the holder
+        const original = this[key];
+
+        if (original instanceof Date) {
+          return { [TYPE_TAG]: "Date", value: original.toJSON() };
+        }
+        if (current instanceof Map) {
+          return { [TYPE_TAG]: "Map", value: [...current.entries()] };
+        }
+        if (current instanceof Set) {
+          return { [TYPE_TAG]: "Set", value: [...current.values()] };
+        }
+        if (typeof current === "bigint") {
+          return { [TYPE_TAG]: "BigInt", value: current.toString() };
+        }
+        return current;
+      }
+    );
+  },
+
+  deserialize<T = unknown>(payload: string): T {
+    return JSON.parse(payload, (_key, current: unknown) => {
+      if (!isTaggedValue(current)) {
+        return current;
+      }
+
+      switch (current[TYPE_TAG]) {
+        case "Date":
+          return new Date((current.value as string | null) ?? NaN);
+        case "Map":
+          return new Map(current.value as [unknown, unknown][]);
+        case "Set":
+          return new Set(current.value as unknown[]);
+        case "BigInt":
+          return BigInt(current.value as string);
+        default:
+          return current;
+      }
+    }) as T;
+  },
+};
+
+/**
+ * Checks that a deserialized payload has the shape of a cache entry.
+ * @param {unknown} value - The deserialized payload.
+ * @returns {boolean} True if the payload is a cache entry.
+ */
+export const isStoredCacheEntry = (
+  value: unknown
+): value is StoredCacheEntry<unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  "data" in value &&
+  typeof (value as StoredCacheEntry<unknown>).timestamp === "number" &&
+  typeof (value as StoredCacheEntry<unknown>).staleTime === "number" &&
+  typeof (value as StoredCacheEntry<unknown>).cacheTime === "number";
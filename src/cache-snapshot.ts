@@ -0,0 +1,52 @@
+import {
+  CacheKey,
+  DehydratedCache,
+  DehydratedCacheEntry,
+  StoredCacheEntry,
+} from "./cache.types";
+
+/**
+ * Copies a stored entry into a snapshot entry, keeping its timestamp and times.
+ * @param {CacheKey} key - The key of the entry.
+ * @param {StoredCacheEntry<unknown>} entry - The stored entry.
+ * @returns {DehydratedCacheEntry<unknown>} The snapshot entry.
+ */
+export const toDehydratedEntry = (
+  key: CacheKey,
+  {
+    data,
+    timestamp,
+    staleTime,
+    cacheTime,
+    schemaVersion,
+  }: StoredCacheEntry<unknown>
+): DehydratedCacheEntry<unknown> => ({
+  key,
+  data,
+  timestamp,
+  staleTime,
+  cacheTime,
+  ...(schemaVersion !== undefined && { schemaVersion }),
+});
+
+/**
+ * Returns the snapshot entries to restore: none when the snapshot was
+ * dehydrated with another buster, otherwise the entries that haven't expired.
+ * @param {DehydratedCache} snapshot - The snapshot to hydrate.
+ * @param {string} buster - The buster of the hydrated store.
+ * @returns {DehydratedCacheEntry<unknown>[] | null} The entries to restore, or null if the snapshot is discarded.
+ */
+export const getHydratableEntries = (
+  snapshot: DehydratedCache,
+  buster: string
+): DehydratedCacheEntry<unknown>[] | null => {
+  if (snapshot.buster !== buster) {
+    return null;
+  }
+
+  const currentTime = Date.now();
+  return snapshot.entries.filter(
+    (entry) =>
+      entry.key.length > 0 && currentTime - entry.timestamp <= entry.cacheTime
+  );
+};
@@ -0,0 +1,114 @@
+import { hashKey } from "./cache-key";
+import {
+  CacheCounters,
+  CacheOptions,
+  CacheStatsEvent,
+  CacheStatsSnapshot,
+} from "./cache.types";
+
+const createCounters = (): CacheCounters => ({
+  hits: 0,
+  misses: 0,
+  staleHits: 0,
+  sets: 0,
+  invalidations: 0,
+  gcEvictions: 0,
+  fetches: 0,
+  fetchErrors: 0,
+  fetchDuration: 0,
+});
+
+/**
+ * Adds an event to a set of counters.
+ */
+const count = (counters: CacheCounters, event: CacheStatsEvent): void => {
+  switch (event.type) {
+    case "hit":
+      counters.hits++;
+      if (event.stale) {
+        counters.staleHits++;
+      }
+      break;
+    case "miss":
+      counters.misses++;
+      break;
+    case "set":
+      counters.sets++;
+      break;
+    case "invalidate":
+      counters.invalidations++;
+      break;
+    case "gc":
+      counters.gcEvictions++;
+      break;
+    case "fetchError":
+      counters.fetchErrors++;
+    // falls through
+    case "fetch":
+      counters.fetches++;
+      counters.fetchDuration += event.duration;
+      break;
+  }
+};
+
+/**
+ * Keeps the instrumentation counters of a cache store, in total and per key prefix.
+ */
+export class CacheStats {
+  private total = createCounters();
+  private byPrefix = new Map<string, CacheCounters>();
+
+  /**
+   * @param {Pick<CacheOptions, "onEvent" | "statsPrefixLength">} options - The instrumentation hook and prefix length of the store.
+   */
+  constructor(
+    private options: Pick<CacheOptions, "onEvent" | "statsPrefixLength"> = {}
+  ) {}
+
+  /**
+   * Counts an event and forwards it to the onEvent hook. Events of the empty
+   * key (clearing the store) are only counted in the total.
+   * @param {CacheStatsEvent} event - The instrumentation event.
+   */
+  record(event: CacheStatsEvent): void {
+    count(this.total, event);
+
+    if (event.key.length > 0) {
+      const prefix = hashKey(
+        event.key.slice(0, this.options.statsPrefixLength ?? 1)
+      );
+      let counters = this.byPrefix.get(prefix);
+      if (!counters) {
+        counters = createCounters();
+        this.byPrefix.set(prefix, counters);
+      }
+      count(counters, event);
+    }
+
+    this.options.onEvent?.(event);
+  }
+
+  /**
+   * Returns a copy of the counters.
+   * @returns {CacheStatsSnapshot} The total and per-prefix counters.
+   */
+  get(): CacheStatsSnapshot {
+    return {
+      total: { ...this.total },
+      byPrefix: Object.fromEntries(
+        [...this.byPrefix].map(([prefix, counters]) => [
+          prefix,
+          { ...counters },
+        ])
+      ),
+    };
+  }
+
+  /**
+   * Resets every counter.
+   */
+  reset(): void {
+    this.total = createCounters();
+    this.byPrefix.clear();
+  }
+}
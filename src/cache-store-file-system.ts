@@ -0,0 +1,556 @@
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "fs/promises";
+import { createHash } from "crypto";
+import { join } from "path";
+
+import { hashKeySegment } from "./cache-key";
+import { Logger, createStoreLogger } from "./cache-logger";
+import {
+  CacheSerializer,
+  defaultSerializer,
+  isStoredCacheEntry,
+} from "./cache-serializer";
+import { applySchema, findSchema } from "./cache-schema";
+import { getHydratableEntries, toDehydratedEntry } from "./cache-snapshot";
+import { CacheStats } from "./cache-stats";
+import { CacheSubscriptions } from "./cache-subscriptions";
+import {
+  DEFAULT_BUSTER,
+  DEFAULT_CACHE_TIME,
+  DEFAULT_GC_INTERVAL,
+  DEFAULT_STALE_TIME,
+  WILDCARD,
+} from "./cache.constants";
+import {
+  AsyncCacheStore,
+  CacheEntry,
+  CacheEntryMetadata,
+  CacheEntryPredicate,
+  CacheEvent,
+  CacheEntryResult,
+  CacheKey,
+  CacheKeyPattern,
+  CacheKeysOptions,
+  CacheKeySegment,
+  CacheListener,
+  CacheOptions,
+  CacheStatsEvent,
+  CacheStatsSnapshot,
+  DehydrateOptions,
+  DehydratedCache,
+  SetCacheParams,
+  StoredCacheEntry,
+} from "./cache.types";
+
+export interface CacheStoreFileSystemOptions extends CacheOptions {
+  /** Directory the entries are persisted under */
+  directory: string;
+}
+
+// Entry file of each key directory. Segment directories are URI-encoded with
+// dots escaped, so no segment can be named like it.
+const ENTRY_FILE = "entry.json";
+
+// Longer segment names are replaced with a digest, well under the 255-byte
+// limit of most filesystems. URI encoding escapes "#", so only digests start with it.
+const MAX_FILE_NAME_LENGTH = 128;
+const DIGEST_PREFIX = "#";
+
+/**
+ * Converts a key segment into a safe directory name. Object segments are
+ * already URI-encoded by hashKeySegment.
+ */
+const segmentToFileName = (segment: CacheKeySegment): string => {
+  const name = (
+    typeof segment === "object"
+      ? hashKeySegment(segment)
+      : encodeURIComponent(segment)
+  ).replace(/\./g, "%2E");
+
+  return name.length > MAX_FILE_NAME_LENGTH
+    ? DIGEST_PREFIX + createHash("sha256").update(name).digest("hex")
+    : name;
+};
+
+const fileNameToSegment = (fileName: string): string =>
+  decodeURIComponent(fileName);
+
+const isDigest = (fileName: string): boolean =>
+  fileName.startsWith(DIGEST_PREFIX);
+
+const isNotFound = (error: unknown): boolean =>
+  (error as NodeJS.ErrnoException)?.code === "ENOENT";
+
+type EntryVisitor = (
+  file: string,
+  entry: StoredCacheEntry<unknown>,
+  path: CacheKey
+) => Promise<void>;
+
+/**
+ * Cache store persisting entries on the filesystem, for Node services and CLIs.
+ * Each key segment is a directory, so invalidating a key removes its whole subtree.
+ */
+export class CacheStoreFileSystem implements AsyncCacheStore {
+  private gcIntervalId: ReturnType<typeof setInterval> | null = null;
+  private logger: Logger;
+  private serializer: CacheSerializer;
+  private subscriptions = new CacheSubscriptions();
+  private stats: CacheStats;
+
+  /**
+   * Creates a filesystem cache under the given directory.
+   * @param {CacheStoreFileSystemOptions} options - The directory and cache configuration.
+   */
+  constructor(private options: CacheStoreFileSystemOptions) {
+    this.logger = createStoreLogger(this.options);
+    this.stats = new CacheStats(this.options);
+    this.serializer = this.options.serializer || defaultSerializer;
+    this.startGarbageCollector(this.options.gcInterval ?? DEFAULT_GC_INTERVAL);
+  }
+
+  /**
+   * Returns the directory of a key.
+   */
+  private keyToDirectory(key: CacheKey): string {
+    return join(this.options.directory, ...key.map(segmentToFileName));
+  }
+
+  /**
+   * Reads a persisted entry, or null if the file doesn't exist. Corrupt files
+   * are deleted and read as a miss.
+   */
+  private async readEntry<T>(
+    file: string
+  ): Promise<StoredCacheEntry<T> | null> {
+    let content: string;
+    try {
+      content = await readFile(file, "utf8");
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      const entry = this.serializer.deserialize(content);
+      if (isStoredCacheEntry(entry)) {
+        return entry as StoredCacheEntry<T>;
+      }
+      this.logger.error({ event: "corruptEntry", file });
+    } catch (error) {
+      this.logger.error({ event: "corruptEntry", file, error });
+    }
+
+    await rm(file, { force: true });
+    return null;
+  }
+
+  /**
+   * Writes a file atomically: the content goes to a temporary file that is then renamed over the target.
+   */
+  private async writeFileAtomic(file: string, content: string): Promise<void> {
+    const tempFile = `${file}.${process.pid}.${Date.now()}.${Math.random()
+      .toString(36)
+      .slice(2)}.tmp`;
+
+    try {
+      await writeFile(tempFile, content, "utf8");
+      await rename(tempFile, file);
+    } catch (error) {
+      await rm(tempFile, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the segment directories of a directory.
+   */
+  private async listChildren(directory: string): Promise<string[]> {
+    try {
+      const children = await readdir(directory, { withFileTypes: true });
+      return children
+        .filter((child) => child.isDirectory())
+        .map((child) => child.name);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async set<T>({
+    key,
+    data,
+    staleTime,
+    cacheTime,
+  }: SetCacheParams<T>): Promise<void> {
+    if (key.length === 0) {
+      this.logger.warn({ event: "invalidKey", key });
+      return;
+    }
+
+    await this.writeEntry(key, {
+      key,
+      data,
+      timestamp: Date.now(),
+      staleTime:
+        staleTime ?? this.options.defaultStaleTime ?? DEFAULT_STALE_TIME,
+      cacheTime:
+        cacheTime ?? this.options.defaultCacheTime ?? DEFAULT_CACHE_TIME,
+      schemaVersion: findSchema(this.options.schemas, key)?.schemaVersion,
+    });
+  }
+
+  private async writeEntry(
+    key: CacheKey,
+    entry: StoredCacheEntry<unknown>
+  ): Promise<void> {
+    const directory = this.keyToDirectory(key);
+
+    await mkdir(directory, { recursive: true });
+    await this.writeFileAtomic(
+      join(directory, ENTRY_FILE),
+      this.serializer.serialize(entry)
+    );
+
+    this.logger.debug({ event: "set", key });
+    this.notify({ type: "set", key });
+  }
+
+  async get<T>(key: CacheKey): Promise<CacheEntryResult<T>> {
+    const file = join(this.keyToDirectory(key), ENTRY_FILE);
+    const storedEntry = key.length > 0 ? await this.readEntry<T>(file) : null;
+
+    if (!storedEntry) {
+      this.logger.debug({ event: "miss", key });
+      this.stats.record({ type: "miss", key });
+      return { data: null, stale: false };
+    }
+
+    const entry = applySchema(
+      findSchema(this.options.schemas, key),
+      storedEntry
+    );
+
+    if (!entry) {
+      await rm(file, { force: true });
+      this.logger.warn({ event: "invalidEntry", key });
+      this.stats.record({ type: "miss", key });
+      return { data: null, stale: false };
+    }
+
+    if (entry !== storedEntry) {
+      await this.writeFileAtomic(file, this.serializer.serialize(entry));
+      this.logger.info({
+        event: "migrate",
+        key,
+        fromVersion: storedEntry.schemaVersion,
+      });
+    }
+
+    const isStale = this.isStale(entry);
+
+    this.stats.record({ type: "hit", key, stale: isStale });
+    this.logger.debug({ event: "hit", key, stale: isStale });
+    return { data: entry.data, stale: isStale };
+  }
+
+  private isStale<T>(entry: CacheEntry<T>): boolean {
+    return Date.now() - entry.timestamp > entry.staleTime;
+  }
+
+  async getMetadata(key: CacheKey): Promise<CacheEntryMetadata | null> {
+    if (key.length === 0) {
+      return null;
+    }
+
+    const entry = await this.readEntry(
+      join(this.keyToDirectory(key), ENTRY_FILE)
+    );
+    if (!entry) {
+      return null;
+    }
+
+    const { timestamp, staleTime, cacheTime } = entry;
+    return { timestamp, staleTime, cacheTime };
+  }
+
+  /**
+   * Removes the directories of the keys matching the pattern, with all their descendants.
+   */
+  async invalidate(key: CacheKeyPattern): Promise<void> {
+    if (key.length === 0) {
+      return;
+    }
+
+    const removed = await this.removeDirectories(
+      this.options.directory,
+      key,
+      []
+    );
+    this.logger.debug({ event: "invalidate", key });
+
+    for (const removedKey of removed) {
+      this.notify({ type: "invalidate", key: removedKey });
+    }
+  }
+
+  private async removeDirectories(
+    directory: string,
+    pattern: CacheKeyPattern,
+    path: CacheKey
+  ): Promise<CacheKey[]> {
+    const [part, ...rest] = pattern;
+    const children: [string, CacheKeySegment][] =
+      part === WILDCARD
+        ? await Promise.all(
+            (await this.listChildren(directory)).map(
+              async (child): Promise<[string, CacheKeySegment]> => [
+                child,
+                isDigest(child)
+                  ? await this.digestSegment(directory, child, path.length)
+                  : fileNameToSegment(child),
+              ]
+            )
+          )
+        : [[segmentToFileName(part), part]];
+    const removed: CacheKey[] = [];
+
+    for (const [child, segment] of children) {
+      const childDirectory = join(directory, child);
+      const childPath = [...path, segment];
+
+      if (rest.length > 0) {
+        removed.push(
+          ...(await this.removeDirectories(childDirectory, rest, childPath))
+        );
+        continue;
+      }
+
+      const exists = await stat(childDirectory).then(
+        (stats) => stats.isDirectory(),
+        () => false
+      );
+      if (exists) {
+        await rm(childDirectory, { recursive: true, force: true });
+        removed.push(childPath);
+      }
+    }
+
+    return removed;
+  }
+
+  async invalidateWhere(
+    predicate: CacheEntryPredicate,
+    { keys }: CacheKeysOptions = {}
+  ): Promise<CacheKey[]> {
+    const removed: CacheKey[] = [];
+
+    await this.visitEntries(keys, async (file, entry, path) => {
+      const key = entry.key ?? path;
+      const { timestamp, staleTime, cacheTime } = entry;
+
+      if (predicate(key, { timestamp, staleTime, cacheTime })) {
+        await rm(file, { force: true });
+        removed.push(key);
+      }
+    });
+
+    this.logger.debug({ event: "invalidateWhere", keys: removed });
+
+    for (const key of removed) {
+      this.notify({ type: "invalidate", key });
+    }
+
+    return removed;
+  }
+
+  /**
+   * Visits the persisted entries of the given keys, or every persisted entry.
+   */
+  private async visitEntries(
+    keys: CacheKey[] | undefined,
+    visit: EntryVisitor
+  ): Promise<void> {
+    if (!keys) {
+      return this.forEachEntry(this.options.directory, [], visit);
+    }
+
+    const files = new Map(
+      keys
+        .filter((key) => key.length > 0)
+        .map((key) => [join(this.keyToDirectory(key), ENTRY_FILE), key])
+    );
+    for (const [file, key] of files) {
+      const entry = await this.readEntry(file);
+      if (entry) {
+        await visit(file, entry, key);
+      }
+    }
+  }
+
+  /**
+   * Reads the segment a digest directory stands for from the key of an entry
+   * stored under it, falling back to the digest when there is none.
+   */
+  private async digestSegment(
+    directory: string,
+    fileName: string,
+    index: number
+  ): Promise<CacheKeySegment> {
+    let segment: CacheKeySegment | undefined;
+
+    await this.forEachEntry(
+      join(directory, fileName),
+      [],
+      async (_file, entry) => {
+        segment ??= entry.key?.[index];
+      }
+    );
+
+    return segment ?? fileName;
+  }
+
+  /**
+   * Recursively visits every persisted entry under a directory.
+   */
+  private async forEachEntry(
+    directory: string,
+    path: CacheKey,
+    visit: EntryVisitor
+  ): Promise<void> {
+    const entry = await this.readEntry(join(directory, ENTRY_FILE));
+    if (entry) {
+      await visit(join(directory, ENTRY_FILE), entry, path);
+    }
+
+    for (const child of await this.listChildren(directory)) {
+      await this.forEachEntry(
+        join(directory, child),
+        [...path, fileNameToSegment(child)],
+        visit
+      );
+    }
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.options.directory, { recursive: true, force: true });
+    this.logger.debug({ event: "clear" });
+    this.notify({ type: "invalidate", key: [] });
+  }
+
+  async dehydrate({
+    filter,
+    keys,
+  }: DehydrateOptions = {}): Promise<DehydratedCache> {
+    const snapshot: DehydratedCache = {
+      buster: this.options.buster ?? DEFAULT_BUSTER,
+      entries: [],
+    };
+
+    await this.visitEntries(keys, async (_file, entry, path) => {
+      const key = entry.key ?? path;
+      const { timestamp, staleTime, cacheTime } = entry;
+
+      if (!filter || filter(key, { timestamp, staleTime, cacheTime })) {
+        snapshot.entries.push(toDehydratedEntry(key, entry));
+      }
+    });
+
+    this.logger.debug({
+      event: "dehydrate",
+      entries: snapshot.entries.length,
+    });
+    return snapshot;
+  }
+
+  async hydrate(snapshot: DehydratedCache): Promise<CacheKey[]> {
+    const entries = getHydratableEntries(
+      snapshot,
+      this.options.buster ?? DEFAULT_BUSTER
+    );
+    if (!entries) {
+      this.logger.info({ event: "hydrateDiscarded", buster: snapshot.buster });
+      return [];
+    }
+
+    for (const entry of entries) {
+      await this.writeEntry(entry.key, entry);
+    }
+    this.logger.debug({ event: "hydrate", entries: entries.length });
+
+    return entries.map((entry) => entry.key);
+  }
+
+  /**
+   * Deletes the files of expired entries.
+   */
+  async cleanUp(): Promise<void> {
+    const currentTime = Date.now();
+    this.logger.debug({ event: "cleanUp" });
+
+    await this.forEachEntry(
+      this.options.directory,
+      [],
+      async (file, entry, path) => {
+        const isExpired = currentTime - entry.timestamp > entry.cacheTime;
+        if (isExpired) {
+          await rm(file, { force: true });
+          this.logger.debug({ event: "gc", key: entry.key ?? path });
+          this.notify({ type: "gc", key: entry.key ?? path });
+        }
+      }
+    );
+  }
+
+  private notify(event: CacheEvent): void {
+    this.subscriptions.notify(event);
+    this.stats.record(event);
+  }
+
+  subscribe(key: CacheKey, listener: CacheListener): () => void {
+    return this.subscriptions.subscribe(key, listener);
+  }
+
+  getStats(): CacheStatsSnapshot {
+    return this.stats.get();
+  }
+
+  resetStats(): void {
+    this.stats.reset();
+  }
+
+  recordEvent(event: CacheStatsEvent): void {
+    this.stats.record(event);
+  }
+
+  private startGarbageCollector(gcInterval: number) {
+    if (!this.gcIntervalId) {
+      this.gcIntervalId = setInterval(() => {
+        this.cleanUp().catch((error) => {
+          this.logger.error({ event: "gcFailed", error });
+        });
+      }, gcInterval);
+      // Don't keep a CLI alive just for garbage collection
+      this.gcIntervalId.unref?.();
+    }
+  }
+
+  stopGarbageCollector() {
+    if (this.gcIntervalId) {
+      clearInterval(this.gcIntervalId);
+      this.gcIntervalId = null;
+      this.logger.debug({ event: "gcStopped" });
+    }
+  }
+}
@@ -1,23 +1,74 @@
-import { ConsoleLogger, Logger } from "./cache-logger";
+import { hashKeySegment, stableStringify } from "./cache-key";
+import { ConsoleLogger, Logger, createStoreLogger } from "./cache-logger";
+import { applySchema, findSchema } from "./cache-schema";
+import { getHydratableEntries, toDehydratedEntry } from "./cache-snapshot";
+import { CacheStats } from "./cache-stats";
+import { CacheSubscriptions } from "./cache-subscriptions";
 import {
+  DEFAULT_BUSTER,
   DEFAULT_CACHE_TIME,
   DEFAULT_GC_INTERVAL,
   DEFAULT_STALE_TIME,
+  WILDCARD,
 } from "./cache.constants";
 import {
   CacheEntry,
+  CacheEntryMetadata,
+  CacheEntryPredicate,
+  CacheEvent,
   CacheKey,
+  CacheKeyPattern,
+  CacheKeysOptions,
+  CacheKeySegment,
+  CacheListener,
   CacheOptions,
+  CacheStatsEvent,
+  CacheStatsSnapshot,
   CacheStore,
+  DehydrateOptions,
+  DehydratedCache,
   SetCacheParams,
+  StoredCacheEntry,
 } from "./cache.types";
 
-type CacheStoreMap = Map<string | number, CacheStoreMap | CacheEntry<unknown>>;
+type CacheStoreMap = Map<
+  string | number,
+  CacheStoreMap | StoredCacheEntry<unknown>
+>;
+
+interface TrackedEntry {
+  key: CacheKey;
+  size: number;
+}
+
+type EvictionReason = "maxEntries" | "maxBytes";
+
+/**
+ * Object and array segments are looked up by their hash, since Map compares them by identity.
+ */
+const nodeKey = (part: CacheKeySegment): string | number =>
+  typeof part === "object" ? hashKeySegment(part) : part;
+
+/**
+ * Approximates the memory used by a value from its JSON representation (two bytes per character).
+ */
+const estimateSize = (data: unknown): number => {
+  try {
+    return (JSON.stringify(data)?.length ?? 0) * 2;
+  } catch {
+    return 0;
+  }
+};
 
 export class CacheStoreInMemory implements CacheStore {
   private store: CacheStoreMap = new Map();
   private gcIntervalId: ReturnType<typeof setInterval> | null = null;
   private logger: Logger;
+  private subscriptions = new CacheSubscriptions();
+  private stats: CacheStats;
+  // Entries in least recently used order, indexed by their stable key
+  private trackedEntries = new Map<string, TrackedEntry>();
+  private totalBytes = 0;
 
   /**
    * Creates a cache instance with optional garbage collection, stale, and cache times.
@@ -32,20 +83,11 @@ export class CacheStoreInMemory implements CacheStore {
       logger: new ConsoleLogger(),
     }
   ) {
-    this.logger = this.options.logger || new ConsoleLogger();
+    this.logger = createStoreLogger(this.options);
+    this.stats = new CacheStats(this.options);
     this.startGarbageCollector(this.options.gcInterval ?? DEFAULT_GC_INTERVAL);
   }
 
-  /**
-   * Log messages if debug is enabled
-   */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private debugLog(...messages: any[]): void {
-    if (this.options.debug) {
-      this.logger.log("[Cache Debug]", ...messages);
-    }
-  }
-
   /**
    * Recursively traverses or creates nodes in the cache store for a given key path.
    * @param {CacheStoreMap} map - The current map (node) in the cache store.
@@ -54,7 +96,7 @@ export class CacheStoreInMemory implements CacheStore {
    */
   private getOrCreateNode(map: CacheStoreMap, key: CacheKey): CacheStoreMap {
     let current = map;
-    for (const part of key) {
+    for (const part of key.map(nodeKey)) {
       if (!current.has(part)) {
         current.set(part, new Map());
       }
@@ -67,14 +109,14 @@ export class CacheStoreInMemory implements CacheStore {
    * Retrieves a node or entry for a given key path from the cache store.
    * @param {CacheStoreMap} map - The current map (node) in the cache store.
    * @param {CacheKey} key - The hierarchical key used for cache storage.
-   * @returns {CacheStoreMap | CacheEntry<unknown> | undefined} The node or entry for the given key.
+   * @returns {CacheStoreMap | StoredCacheEntry<unknown> | undefined} The node or entry for the given key.
    */
   private getNode(
     map: CacheStoreMap,
     key: CacheKey
-  ): CacheStoreMap | CacheEntry<unknown> | undefined {
-    let current: CacheStoreMap | CacheEntry<unknown> | undefined = map;
-    for (const part of key) {
+  ): CacheStoreMap | StoredCacheEntry<unknown> | undefined {
+    let current: CacheStoreMap | StoredCacheEntry<unknown> | undefined = map;
+    for (const part of key.map(nodeKey)) {
       if (!(current instanceof Map)) {
         return undefined;
       }
@@ -83,30 +125,60 @@ export class CacheStoreInMemory implements CacheStore {
     return current;
   }
 
+  /**
+   * Finds the nodes of the given keys that hold an entry, each node once.
+   * @param {CacheKey[]} keys - The keys of the entries.
+   * @returns {Map<CacheStoreMap, CacheKey>} The nodes holding an entry, with their key.
+   */
+  private findEntryNodes(keys: CacheKey[]): Map<CacheStoreMap, CacheKey> {
+    const nodes = new Map<CacheStoreMap, CacheKey>();
+
+    for (const key of keys) {
+      const node = this.getNode(this.store, key);
+      if (node instanceof Map && node.has("cacheEntry")) {
+        nodes.set(node, key);
+      }
+    }
+
+    return nodes;
+  }
+
   /**
    * Adds or updates a cache entry for a given key.
    * @param {SetCacheParams<T>} params - The cache entry data and configuration.
    */
   set<T>({ key, data, staleTime, cacheTime }: SetCacheParams<T>): void {
     if (key.length === 0) {
-      this.logger.log("Invalid key:", key);
+      this.logger.warn({ event: "invalidKey", key });
       return;
     }
 
-    const node = this.getOrCreateNode(this.store, key);
-
-    const cacheEntry: CacheEntry<T> = {
+    this.writeEntry(key, {
+      key,
       data,
       timestamp: Date.now(),
       staleTime:
         staleTime ?? this.options.defaultStaleTime ?? DEFAULT_STALE_TIME,
       cacheTime:
         cacheTime ?? this.options.defaultCacheTime ?? DEFAULT_CACHE_TIME,
-    };
+      schemaVersion: findSchema(this.options.schemas, key)?.schemaVersion,
+    });
+  }
+
+  /**
+   * Stores an entry under its key, then evicts entries if the cache is over its limits.
+   * @param {CacheKey} key - The key of the entry.
+   * @param {StoredCacheEntry<unknown>} cacheEntry - The entry to store.
+   */
+  private writeEntry(key: CacheKey, cacheEntry: StoredCacheEntry<unknown>) {
+    const node = this.getOrCreateNode(this.store, key);
 
     node.set("cacheEntry", cacheEntry);
+    this.track(key, cacheEntry.data);
 
-    this.debugLog("Set:", key, cacheEntry);
+    this.logger.debug({ event: "set", key });
+    this.notify({ type: "set", key });
+    this.evict();
   }
 
   /**
@@ -117,14 +189,40 @@ export class CacheStoreInMemory implements CacheStore {
   get<T>(key: CacheKey): { data: T | null; stale: boolean } {
     const node = this.getNode(this.store, key);
     if (!node || !(node instanceof Map) || !node.has("cacheEntry")) {
-      this.debugLog("Get (miss):", key);
+      this.logger.debug({ event: "miss", key });
+      this.stats.record({ type: "miss", key });
       return { data: null, stale: false };
     }
 
-    const entry = node.get("cacheEntry") as CacheEntry<T>;
+    const storedEntry = node.get("cacheEntry") as StoredCacheEntry<T>;
+    const entry = applySchema(
+      findSchema(this.options.schemas, key),
+      storedEntry
+    );
+
+    if (!entry) {
+      node.delete("cacheEntry");
+      this.untrack(key);
+      this.logger.warn({ event: "invalidEntry", key });
+      this.stats.record({ type: "miss", key });
+      return { data: null, stale: false };
+    }
+
+    if (entry !== storedEntry) {
+      node.set("cacheEntry", entry);
+      this.track(key, entry.data);
+      this.logger.info({
+        event: "migrate",
+        key,
+        fromVersion: storedEntry.schemaVersion,
+      });
+    }
+
     const isStale = this.isStale(entry);
+    this.touch(key);
 
-    this.debugLog("Get (hit):", key, entry, "Stale:", isStale);
+    this.stats.record({ type: "hit", key, stale: isStale });
+    this.logger.debug({ event: "hit", key, stale: isStale });
     return { data: entry.data, stale: isStale };
   }
 
@@ -138,18 +236,226 @@ export class CacheStoreInMemory implements CacheStore {
   }
 
   /**
-   * Invalidates (removes) a cache entry for a given key.
-   * @param {CacheKey} key - The key of the entry to invalidate.
+   * Returns the timestamp and times of a cache entry, without counting a read.
+   * @param {CacheKey} key - The key of the entry.
+   * @returns {CacheEntryMetadata | null} The entry metadata, or null on a miss.
    */
-  invalidate(key: CacheKey): void {
-    const parentNode = this.getNode(this.store, key.slice(0, -1)) as
-      | CacheStoreMap
-      | undefined;
-    const lastKey = key[key.length - 1];
-    if (parentNode && parentNode instanceof Map) {
-      parentNode.delete(lastKey);
-      this.debugLog("Invalidate:", key);
+  getMetadata(key: CacheKey): CacheEntryMetadata | null {
+    const node = this.getNode(this.store, key);
+    if (!(node instanceof Map) || !node.has("cacheEntry")) {
+      return null;
     }
+
+    const { timestamp, staleTime, cacheTime } = node.get(
+      "cacheEntry"
+    ) as StoredCacheEntry<unknown>;
+    return { timestamp, staleTime, cacheTime };
+  }
+
+  /**
+   * Invalidates (removes) the cache entries for a given key and its descendants.
+   * @param {CacheKeyPattern} key - The key of the entries to invalidate, WILDCARD segments match any value.
+   */
+  invalidate(key: CacheKeyPattern): void {
+    if (key.length === 0) {
+      return;
+    }
+
+    const removed = this.removeNodes(this.store, key, []);
+    this.logger.debug({ event: "invalidate", key });
+
+    for (const removedKey of removed) {
+      this.notify({ type: "invalidate", key: removedKey });
+    }
+  }
+
+  /**
+   * Recursively removes the nodes matching a key pattern.
+   * @param {CacheStoreMap} node - The current node in the cache store.
+   * @param {CacheKeyPattern} pattern - The remaining part of the key pattern.
+   * @param {CacheKey} path - The key of the current node.
+   * @returns {CacheKey[]} The keys of the removed nodes.
+   */
+  private removeNodes(
+    node: CacheStoreMap,
+    pattern: CacheKeyPattern,
+    path: CacheKey
+  ): CacheKey[] {
+    const [part, ...rest] = pattern;
+    const children =
+      part === WILDCARD
+        ? [...node.keys()].filter((child) => child !== "cacheEntry")
+        : [nodeKey(part)];
+    const removed: CacheKey[] = [];
+
+    for (const child of children) {
+      const value = node.get(child);
+      if (!(value instanceof Map)) {
+        continue;
+      }
+
+      if (rest.length === 0) {
+        node.delete(child);
+        this.untrackNode(value);
+        removed.push([...path, child]);
+      } else {
+        removed.push(...this.removeNodes(value, rest, [...path, child]));
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Invalidates (removes) every cache entry matching a predicate. Descendants
+   * of a removed entry are kept unless they match as well.
+   * @param {CacheEntryPredicate} predicate - Receives the key and metadata of each entry.
+   * @param {CacheKeysOptions} options - Optional keys of the only entries to check.
+   * @returns {CacheKey[]} The keys of the removed entries.
+   */
+  invalidateWhere(
+    predicate: CacheEntryPredicate,
+    { keys }: CacheKeysOptions = {}
+  ): CacheKey[] {
+    const removed: CacheKey[] = [];
+
+    if (keys) {
+      for (const [node, path] of this.findEntryNodes(keys)) {
+        this.removeEntriesWhere(node, predicate, path, removed, false);
+      }
+    } else {
+      this.removeEntriesWhere(this.store, predicate, [], removed);
+    }
+    this.logger.debug({ event: "invalidateWhere", keys: removed });
+
+    for (const key of removed) {
+      this.notify({ type: "invalidate", key });
+    }
+
+    return removed;
+  }
+
+  /**
+   * Recursively removes the entries matching a predicate.
+   * @param {CacheStoreMap} node - The current node in the cache store.
+   * @param {CacheEntryPredicate} predicate - Receives the key and metadata of each entry.
+   * @param {CacheKey} path - The key of the current node.
+   * @param {CacheKey[]} removed - Collects the keys of the removed entries.
+   * @param {boolean} deep - Whether the descendants of the node are visited too.
+   */
+  private removeEntriesWhere(
+    node: CacheStoreMap,
+    predicate: CacheEntryPredicate,
+    path: CacheKey,
+    removed: CacheKey[],
+    deep = true
+  ): void {
+    for (const [key, value] of node) {
+      if (value instanceof Map) {
+        if (deep) {
+          this.removeEntriesWhere(value, predicate, [...path, key], removed);
+        }
+      } else {
+        const { timestamp, staleTime, cacheTime } = value;
+        const entryKey = value.key ?? path;
+        if (predicate(entryKey, { timestamp, staleTime, cacheTime })) {
+          node.delete(key);
+          this.untrack(entryKey);
+          removed.push(entryKey);
+        }
+      }
+    }
+  }
+
+  /**
+   * Removes every entry from the cache.
+   */
+  clear(): void {
+    this.store.clear();
+    this.trackedEntries.clear();
+    this.totalBytes = 0;
+    this.logger.debug({ event: "clear" });
+    this.notify({ type: "invalidate", key: [] });
+  }
+
+  /**
+   * Serializes the cache entries into a portable snapshot.
+   * @param {DehydrateOptions} options - Optional filter and keys of the included entries.
+   * @returns {DehydratedCache} The snapshot, tagged with the cache buster.
+   */
+  dehydrate({ filter, keys }: DehydrateOptions = {}): DehydratedCache {
+    const snapshot: DehydratedCache = {
+      buster: this.options.buster ?? DEFAULT_BUSTER,
+      entries: [],
+    };
+
+    if (keys) {
+      for (const [node, path] of this.findEntryNodes(keys)) {
+        this.dehydrateNode(node, path, snapshot, filter, false);
+      }
+    } else {
+      this.dehydrateNode(this.store, [], snapshot, filter);
+    }
+    this.logger.debug({
+      event: "dehydrate",
+      entries: snapshot.entries.length,
+    });
+
+    return snapshot;
+  }
+
+  /**
+   * Recursively adds the entries of a node to a snapshot.
+   * @param {CacheStoreMap} node - The current node in the cache store.
+   * @param {CacheKey} path - The key of the current node.
+   * @param {DehydratedCache} snapshot - Collects the entries.
+   * @param {CacheEntryPredicate} filter - Optional filter of the included entries.
+   * @param {boolean} deep - Whether the descendants of the node are visited too.
+   */
+  private dehydrateNode(
+    node: CacheStoreMap,
+    path: CacheKey,
+    snapshot: DehydratedCache,
+    filter?: CacheEntryPredicate,
+    deep = true
+  ): void {
+    for (const [key, value] of node) {
+      if (value instanceof Map) {
+        if (deep) {
+          this.dehydrateNode(value, [...path, key], snapshot, filter);
+        }
+      } else {
+        const { timestamp, staleTime, cacheTime } = value;
+        const entryKey = value.key ?? path;
+        if (!filter || filter(entryKey, { timestamp, staleTime, cacheTime })) {
+          snapshot.entries.push(toDehydratedEntry(entryKey, value));
+        }
+      }
+    }
+  }
+
+  /**
+   * Restores the entries of a snapshot with their original timestamps. Snapshots
+   * with another buster are discarded and expired entries are skipped.
+   * @param {DehydratedCache} snapshot - The snapshot returned by dehydrate.
+   * @returns {CacheKey[]} The keys of the restored entries.
+   */
+  hydrate(snapshot: DehydratedCache): CacheKey[] {
+    const entries = getHydratableEntries(
+      snapshot,
+      this.options.buster ?? DEFAULT_BUSTER
+    );
+    if (!entries) {
+      this.logger.info({ event: "hydrateDiscarded", buster: snapshot.buster });
+      return [];
+    }
+
+    for (const entry of entries) {
+      this.writeEntry(entry.key, entry);
+    }
+    this.logger.debug({ event: "hydrate", entries: entries.length });
+
+    return entries.map((entry) => entry.key);
   }
 
   /**
@@ -157,30 +463,167 @@ export class CacheStoreInMemory implements CacheStore {
    */
   cleanUp(): void {
     const currentTime = Date.now();
-    this.debugLog("Running manual cleanup...");
-    this.cleanUpNode(this.store, currentTime);
+    this.logger.debug({ event: "cleanUp" });
+    this.cleanUpNode(this.store, currentTime, []);
   }
 
   /**
    * Recursively cleans up expired cache entries in the cache store.
    * @param {CacheStoreMap} node - The current node in the cache store.
    * @param {number} currentTime - The current timestamp for checking expiration.
+   * @param {CacheKey} path - The key of the current node.
    */
-  private cleanUpNode(node: CacheStoreMap, currentTime: number): void {
+  private cleanUpNode(
+    node: CacheStoreMap,
+    currentTime: number,
+    path: CacheKey
+  ): void {
     for (const [key, value] of node) {
       if (value instanceof Map) {
-        this.cleanUpNode(value, currentTime);
+        this.cleanUpNode(value, currentTime, [...path, key]);
       } else {
-        const entry = value as CacheEntry<unknown>;
+        const entry = value as StoredCacheEntry<unknown>;
         const isExpired = currentTime - entry.timestamp > entry.cacheTime;
         if (isExpired) {
           node.delete(key);
-          this.debugLog("Garbage collected:", key);
+          this.untrack(entry.key ?? path);
+          this.logger.debug({ event: "gc", key: entry.key ?? path });
+          this.notify({ type: "gc", key: entry.key ?? path });
         }
       }
     }
   }
 
+  /**
+   * Records a write as the most recently used entry.
+   * @param {CacheKey} key - The key of the entry.
+   * @param {unknown} data - The entry data, used to estimate its size.
+   */
+  private track(key: CacheKey, data: unknown): void {
+    this.untrack(key);
+    const size = this.options.maxBytes !== undefined ? estimateSize(data) : 0;
+    this.trackedEntries.set(stableStringify(key), { key, size });
+    this.totalBytes += size;
+  }
+
+  /**
+   * Stops tracking a removed entry.
+   * @param {CacheKey} key - The key of the entry.
+   */
+  private untrack(key: CacheKey): void {
+    const id = stableStringify(key);
+    const tracked = this.trackedEntries.get(id);
+    if (tracked) {
+      this.trackedEntries.delete(id);
+      this.totalBytes -= tracked.size;
+    }
+  }
+
+  /**
+   * Stops tracking every entry of a removed node.
+   * @param {CacheStoreMap} node - The removed node.
+   */
+  private untrackNode(node: CacheStoreMap): void {
+    for (const value of node.values()) {
+      if (value instanceof Map) {
+        this.untrackNode(value);
+      } else if (value.key) {
+        this.untrack(value.key);
+      }
+    }
+  }
+
+  /**
+   * Marks a read entry as the most recently used one.
+   * @param {CacheKey} key - The key of the entry.
+   */
+  private touch(key: CacheKey): void {
+    const id = stableStringify(key);
+    const tracked = this.trackedEntries.get(id);
+    if (tracked) {
+      this.trackedEntries.delete(id);
+      this.trackedEntries.set(id, tracked);
+    }
+  }
+
+  /**
+   * Returns why the cache is over its limits, if it is.
+   * @returns {EvictionReason | null} The exceeded limit.
+   */
+  private getEvictionReason(): EvictionReason | null {
+    const { maxEntries, maxBytes } = this.options;
+    if (maxEntries !== undefined && this.trackedEntries.size > maxEntries) {
+      return "maxEntries";
+    }
+    if (maxBytes !== undefined && this.totalBytes > maxBytes) {
+      return "maxBytes";
+    }
+    return null;
+  }
+
+  /**
+   * Evicts the least recently used entries until the cache is within maxEntries and maxBytes.
+   */
+  private evict(): void {
+    for (const { key } of this.trackedEntries.values()) {
+      const reason = this.getEvictionReason();
+      if (!reason) {
+        return;
+      }
+
+      const node = this.getNode(this.store, key);
+      if (node instanceof Map) {
+        node.delete("cacheEntry");
+      }
+      this.untrack(key);
+
+      this.logger.debug({ event: "evict", key, reason });
+      this.notify({ type: "gc", key });
+    }
+  }
+
+  /**
+   * Notifies the subscribers of a cache event and counts it in the stats.
+   * @param {CacheEvent} event - The cache event.
+   */
+  private notify(event: CacheEvent): void {
+    this.subscriptions.notify(event);
+    this.stats.record(event);
+  }
+
+  /**
+   * Subscribes to changes of a key and its descendants: writes, invalidations and garbage collection.
+   * @param {CacheKey} key - The key to listen to.
+   * @param {CacheListener} listener - Called with every matching cache event.
+   * @returns {() => void} A function that removes the listener.
+   */
+  subscribe(key: CacheKey, listener: CacheListener): () => void {
+    return this.subscriptions.subscribe(key, listener);
+  }
+
+  /**
+   * Returns the instrumentation counters, in total and per key prefix.
+   * @returns {CacheStatsSnapshot} A copy of the counters.
+   */
+  getStats(): CacheStatsSnapshot {
+    return this.stats.get();
+  }
+
+  /**
+   * Resets the instrumentation counters.
+   */
+  resetStats(): void {
+    this.stats.reset();
+  }
+
+  /**
+   * Records an instrumentation event reported from outside the store, e.g. a queryFn call.
+   * @param {CacheStatsEvent} event - The instrumentation event.
+   */
+  recordEvent(event: CacheStatsEvent): void {
+    this.stats.record(event);
+  }
+
   /**
    * Starts the automatic garbage collection process at the specified interval.
    * @param {number} gcInterval - The interval (in milliseconds) at which garbage collection occurs.
@@ -188,7 +631,6 @@ export class CacheStoreInMemory implements CacheStore {
   private startGarbageCollector(gcInterval: number) {
     if (!this.gcIntervalId) {
       this.gcIntervalId = setInterval(() => {
-        this.debugLog("Running automatic garbage collection...");
         this.cleanUp();
       }, gcInterval);
     }
@@ -201,7 +643,7 @@ export class CacheStoreInMemory implements CacheStore {
     if (this.gcIntervalId) {
       clearInterval(this.gcIntervalId);
       this.gcIntervalId = null;
-      this.debugLog("Stopped garbage collection");
+      this.logger.debug({ event: "gcStopped" });
     }
   }
 }
@@ -0,0 +1,356 @@
+import { hashKey, isKeyPrefix } from "./cache-key";
+import { ConsoleLogger, Logger, createStoreLogger } from "./cache-logger";
+import {
+  CacheSerializer,
+  defaultSerializer,
+  isStoredCacheEntry,
+} from "./cache-serializer";
+import { applySchema, findSchema } from "./cache-schema";
+import { getHydratableEntries, toDehydratedEntry } from "./cache-snapshot";
+import { CacheStats } from "./cache-stats";
+import { CacheSubscriptions } from "./cache-subscriptions";
+
+import {
+  DEFAULT_BUSTER,
+  DEFAULT_CACHE_TIME,
+  DEFAULT_GC_INTERVAL,
+  DEFAULT_STALE_TIME,
+} from "./cache.constants";
+import {
+  CacheEntry,
+  CacheEntryMetadata,
+  CacheEntryPredicate,
+  CacheEvent,
+  CacheKey,
+  CacheKeyPattern,
+  CacheKeysOptions,
+  CacheListener,
+  CacheOptions,
+  CacheStatsEvent,
+  CacheStatsSnapshot,
+  CacheStore,
+  DehydrateOptions,
+  DehydratedCache,
+  SetCacheParams,
+  StoredCacheEntry,
+} from "./cache.types";
+import { StorageAdapter } from "./storage-adapter";
+
+/**
+ * Persistent cache store on top of any string key-value storage (MMKV,
+ * localStorage, sessionStorage...). Entries are serialized with the configured
+ * serializer under their hashed key.
+ */
+export class CacheStoreKeyValue implements CacheStore {
+  private gcIntervalId: ReturnType<typeof setInterval> | null = null;
+  private logger: Logger;
+  private serializer: CacheSerializer;
+  private subscriptions = new CacheSubscriptions();
+  private stats: CacheStats;
+
+  constructor(
+    private storage: StorageAdapter,
+    private options: CacheOptions = {
+      gcInterval: DEFAULT_GC_INTERVAL,
+      defaultStaleTime: DEFAULT_STALE_TIME,
+      defaultCacheTime: DEFAULT_CACHE_TIME,
+      debug: false,
+      logger: new ConsoleLogger(),
+    }
+  ) {
+    this.logger = createStoreLogger(this.options);
+    this.stats = new CacheStats(this.options);
+    this.serializer = this.options.serializer || defaultSerializer;
+    this.startGarbageCollector(this.options.gcInterval ?? DEFAULT_GC_INTERVAL);
+  }
+
+  /**
+   * Converts a CacheKey array into a single string key.
+   */
+  private keyToString(key: CacheKey): string {
+    return hashKey(key);
+  }
+
+  /**
+   * Reads the key of a stored entry, falling back to splitting the string key
+   * for entries written before keys were stored.
+   */
+  private entryKey(keyStr: string, entry: StoredCacheEntry<unknown>): CacheKey {
+    return entry.key ?? keyStr.split(":");
+  }
+
+  /**
+   * Returns the storage keys of the given keys, or every storage key of the store.
+   */
+  private storageKeys(keys?: CacheKey[]): string[] {
+    return keys
+      ? [...new Set(keys.map((key) => this.keyToString(key)))]
+      : this.storage.getAllKeys();
+  }
+
+  /**
+   * Reads and deserializes a stored entry. Corrupt payloads are deleted and read as a miss.
+   */
+  private readEntry<T>(keyStr: string): StoredCacheEntry<T> | null {
+    const storedValue = this.storage.getString(keyStr);
+    if (!storedValue) {
+      return null;
+    }
+
+    try {
+      const entry = this.serializer.deserialize(storedValue);
+      if (isStoredCacheEntry(entry)) {
+        return entry as StoredCacheEntry<T>;
+      }
+      this.logger.error({ event: "corruptEntry", storageKey: keyStr });
+    } catch (error) {
+      this.logger.error({ event: "corruptEntry", storageKey: keyStr, error });
+    }
+
+    this.storage.delete(keyStr);
+    return null;
+  }
+
+  set<T>({ key, data, staleTime, cacheTime }: SetCacheParams<T>): void {
+    if (key.length === 0) {
+      this.logger.warn({ event: "invalidKey", key });
+      return;
+    }
+
+    this.writeEntry(key, {
+      key,
+      data,
+      timestamp: Date.now(),
+      staleTime:
+        staleTime ?? this.options.defaultStaleTime ?? DEFAULT_STALE_TIME,
+      cacheTime:
+        cacheTime ?? this.options.defaultCacheTime ?? DEFAULT_CACHE_TIME,
+      schemaVersion: findSchema(this.options.schemas, key)?.schemaVersion,
+    });
+  }
+
+  private writeEntry(key: CacheKey, entry: StoredCacheEntry<unknown>): void {
+    this.storage.set(this.keyToString(key), this.serializer.serialize(entry));
+    this.logger.debug({ event: "set", key });
+    this.notify({ type: "set", key });
+  }
+
+  get<T>(key: CacheKey): { data: T | null; stale: boolean } {
+    const keyStr = this.keyToString(key);
+    const storedEntry = this.readEntry<T>(keyStr);
+
+    if (!storedEntry) {
+      this.logger.debug({ event: "miss", key });
+      this.stats.record({ type: "miss", key });
+      return { data: null, stale: false };
+    }
+
+    const entry = applySchema(
+      findSchema(this.options.schemas, key),
+      storedEntry
+    );
+
+    if (!entry) {
+      this.storage.delete(keyStr);
+      this.logger.warn({ event: "invalidEntry", key });
+      this.stats.record({ type: "miss", key });
+      return { data: null, stale: false };
+    }
+
+    if (entry !== storedEntry) {
+      this.storage.set(keyStr, this.serializer.serialize(entry));
+      this.logger.info({
+        event: "migrate",
+        key,
+        fromVersion: storedEntry.schemaVersion,
+      });
+    }
+
+    const isStale = this.isStale(entry);
+
+    this.stats.record({ type: "hit", key, stale: isStale });
+    this.logger.debug({ event: "hit", key, stale: isStale });
+    return { data: entry.data, stale: isStale };
+  }
+
+  private isStale<T>(entry: CacheEntry<T>): boolean {
+    return Date.now() - entry.timestamp > entry.staleTime;
+  }
+
+  getMetadata(key: CacheKey): CacheEntryMetadata | null {
+    const entry = this.readEntry(this.keyToString(key));
+    if (!entry) {
+      return null;
+    }
+
+    const { timestamp, staleTime, cacheTime } = entry;
+    return { timestamp, staleTime, cacheTime };
+  }
+
+  invalidate(path: CacheKeyPattern): void {
+    if (path.length === 0) {
+      return;
+    }
+
+    // Removes the keys matching the path and all their descendants.
+    // If path = ['customers'], this removes 'customers', 'customers:customer:1', 'customers:all', etc.
+    // If path = ['customers', WILDCARD, 'orders'], this removes 'customers:1:orders', 'customers:2:orders:3', etc.
+    const removed = new Map<string, CacheKey>();
+
+    for (const keyStr of this.storage.getAllKeys()) {
+      const entry = this.readEntry(keyStr);
+      if (!entry) continue;
+
+      // Matches the stored key rather than the storage key, whose string segments may contain ':'
+      const key = this.entryKey(keyStr, entry);
+      if (isKeyPrefix(path, key)) {
+        this.storage.delete(keyStr);
+        const removedKey = key.slice(0, path.length);
+        removed.set(this.keyToString(removedKey), removedKey);
+      }
+    }
+
+    this.logger.debug({ event: "invalidate", key: path });
+
+    for (const key of removed.values()) {
+      this.notify({ type: "invalidate", key });
+    }
+  }
+
+  invalidateWhere(
+    predicate: CacheEntryPredicate,
+    { keys }: CacheKeysOptions = {}
+  ): CacheKey[] {
+    const removed: CacheKey[] = [];
+
+    for (const keyStr of this.storageKeys(keys)) {
+      const entry = this.readEntry(keyStr);
+      if (!entry) continue;
+
+      const key = this.entryKey(keyStr, entry);
+      const { timestamp, staleTime, cacheTime } = entry;
+
+      if (predicate(key, { timestamp, staleTime, cacheTime })) {
+        this.storage.delete(keyStr);
+        removed.push(key);
+      }
+    }
+
+    this.logger.debug({ event: "invalidateWhere", keys: removed });
+
+    for (const key of removed) {
+      this.notify({ type: "invalidate", key });
+    }
+
+    return removed;
+  }
+
+  clear(): void {
+    for (const keyStr of this.storage.getAllKeys()) {
+      this.storage.delete(keyStr);
+    }
+    this.logger.debug({ event: "clear" });
+    this.notify({ type: "invalidate", key: [] });
+  }
+
+  dehydrate({ filter, keys }: DehydrateOptions = {}): DehydratedCache {
+    const snapshot: DehydratedCache = {
+      buster: this.options.buster ?? DEFAULT_BUSTER,
+      entries: [],
+    };
+
+    for (const keyStr of this.storageKeys(keys)) {
+      const entry = this.readEntry(keyStr);
+      if (!entry) continue;
+
+      const key = this.entryKey(keyStr, entry);
+      const { timestamp, staleTime, cacheTime } = entry;
+
+      if (!filter || filter(key, { timestamp, staleTime, cacheTime })) {
+        snapshot.entries.push(toDehydratedEntry(key, entry));
+      }
+    }
+
+    this.logger.debug({
+      event: "dehydrate",
+      entries: snapshot.entries.length,
+    });
+    return snapshot;
+  }
+
+  hydrate(snapshot: DehydratedCache): CacheKey[] {
+    const entries = getHydratableEntries(
+      snapshot,
+      this.options.buster ?? DEFAULT_BUSTER
+    );
+    if (!entries) {
+      this.logger.info({ event: "hydrateDiscarded", buster: snapshot.buster });
+      return [];
+    }
+
+    for (const entry of entries) {
+      this.writeEntry(entry.key, entry);
+    }
+    this.logger.debug({ event: "hydrate", entries: entries.length });
+
+    return entries.map((entry) => entry.key);
+  }
+
+  cleanUp(): void {
+    const currentTime = Date.now();
+    this.logger.debug({ event: "cleanUp" });
+    const keys = this.storage.getAllKeys();
+
+    for (const keyStr of keys) {
+      const entry = this.readEntry(keyStr);
+      if (!entry) continue;
+
+      const isExpired = currentTime - entry.timestamp > entry.cacheTime;
+      if (isExpired) {
+        this.storage.delete(keyStr);
+        this.logger.debug({ event: "gc", key: this.entryKey(keyStr, entry) });
+        this.notify({
+          type: "gc",
+          key: this.entryKey(keyStr, entry),
+        });
+      }
+    }
+  }
+
+  private notify(event: CacheEvent): void {
+    this.subscriptions.notify(event);
+    this.stats.record(event);
+  }
+
+  subscribe(key: CacheKey, listener: CacheListener): () => void {
+    return this.subscriptions.subscribe(key, listener);
+  }
+
+  getStats(): CacheStatsSnapshot {
+    return this.stats.get();
+  }
+
+  resetStats(): void {
+    this.stats.reset();
+  }
+
+  recordEvent(event: CacheStatsEvent): void {
+    this.stats.record(event);
+  }
+
+  private startGarbageCollector(gcInterval: number) {
+    if (!this.gcIntervalId) {
+      this.gcIntervalId = setInterval(() => {
+        this.cleanUp();
+      }, gcInterval);
+    }
+  }
+
+  stopGarbageCollector() {
+    if (this.gcIntervalId) {
+      clearInterval(this.gcIntervalId);
+      this.gcIntervalId = null;
+      this.logger.debug({ event: "gcStopped" });
+    }
+  }
+}
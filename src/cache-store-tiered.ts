@@ -0,0 +1,232 @@
+import { hashKey } from "./cache-key";
+import { Logger, createStoreLogger } from "./cache-logger";
+import { CacheStats } from "./cache-stats";
+import {
+  CacheEntryMetadata,
+  CacheEntryPredicate,
+  CacheEntryResult,
+  CacheKey,
+  CacheKeyPattern,
+  CacheKeysOptions,
+  CacheListener,
+  CacheOptions,
+  CacheStatsEvent,
+  CacheStatsSnapshot,
+  CacheStore,
+  DehydrateOptions,
+  DehydratedCache,
+  SetCacheParams,
+} from "./cache.types";
+
+/**
+ * Times applied to the entries written to one tier. They take precedence over
+ * the times passed to set, so each tier can keep entries for its own duration.
+ */
+export interface CacheTierOptions {
+  staleTime?: number;
+  cacheTime?: number;
+}
+
+export interface CacheStoreTieredOptions
+  extends Pick<
+    CacheOptions,
+    "debug" | "logger" | "logLevel" | "onEvent" | "statsPrefixLength"
+  > {
+  l1?: CacheTierOptions;
+  l2?: CacheTierOptions;
+}
+
+/**
+ * Composes two cache stores: a fast L1 (usually in memory) in front of a
+ * persistent L2. Reads check L1 first, fall through to L2 on a miss or a stale
+ * hit and promote fresh L2 hits to L1. Writes and invalidations go to both
+ * tiers. L2 is the source of truth, so subscriptions are delegated to it and its
+ * events are counted in the stats.
+ */
+export class CacheStoreTiered implements CacheStore {
+  private logger: Logger;
+  private stats: CacheStats;
+
+  /**
+   * @param {CacheStore} l1 - The store read first, e.g. a CacheStoreInMemory.
+   * @param {CacheStore} l2 - The persistent store, e.g. a CacheStoreMMKV.
+   * @param {CacheStoreTieredOptions} options - The times of each tier and debugging options.
+   */
+  constructor(
+    private l1: CacheStore,
+    private l2: CacheStore,
+    private options: CacheStoreTieredOptions = {}
+  ) {
+    this.logger = createStoreLogger(this.options);
+    this.stats = new CacheStats(this.options);
+    this.l2.subscribe([], (event) => this.stats.record(event));
+  }
+
+  set<T>({ key, data, staleTime, cacheTime }: SetCacheParams<T>): void {
+    const { l1 = {}, l2 = {} } = this.options;
+
+    // L1 is written first so that L2 listeners read the new data
+    this.l1.set({
+      key,
+      data,
+      staleTime: l1.staleTime ?? staleTime,
+      cacheTime: l1.cacheTime ?? cacheTime,
+    });
+    this.l2.set({
+      key,
+      data,
+      staleTime: l2.staleTime ?? staleTime,
+      cacheTime: l2.cacheTime ?? cacheTime,
+    });
+  }
+
+  get<T>(key: CacheKey): CacheEntryResult<T> {
+    const l1Result = this.l1.get<T>(key);
+    if (l1Result.data !== null && !l1Result.stale) {
+      this.stats.record({ type: "hit", key, stale: l1Result.stale });
+      this.logger.debug({
+        event: "hit",
+        key,
+        tier: "l1",
+        stale: l1Result.stale,
+      });
+      return l1Result;
+    }
+
+    // A stale L1 hit falls through: L2 may keep the entry fresh for longer
+    const l2Result = this.l2.get<T>(key);
+    if (l2Result.data === null && l1Result.data !== null) {
+      this.stats.record({ type: "hit", key, stale: true });
+      this.logger.debug({ event: "hit", key, tier: "l1", stale: true });
+      return l1Result;
+    }
+
+    if (l2Result.data === null) {
+      this.stats.record({ type: "miss", key });
+      this.logger.debug({ event: "miss", key });
+      return l2Result;
+    }
+
+    // Stale hits are not promoted, they are about to be refetched and written to both tiers
+    if (!l2Result.stale) {
+      this.promote(key, l2Result.data);
+    }
+
+    this.stats.record({ type: "hit", key, stale: l2Result.stale });
+    this.logger.debug({
+      event: "hit",
+      key,
+      tier: "l2",
+      stale: l2Result.stale,
+    });
+    return l2Result;
+  }
+
+  /**
+   * Copies a fresh L2 hit to L1 without making it look newer: the L1 times run
+   * from the L2 timestamp, and can't exceed the L2 ones.
+   */
+  private promote<T>(key: CacheKey, data: T): void {
+    const { staleTime = Infinity, cacheTime = Infinity } =
+      this.options.l1 ?? {};
+    const metadata = this.l2.getMetadata?.(key);
+
+    if (metadata) {
+      const age = Date.now() - metadata.timestamp;
+      this.l1.set({
+        key,
+        data,
+        staleTime: Math.min(staleTime, metadata.staleTime) - age,
+        cacheTime: Math.min(cacheTime, metadata.cacheTime) - age,
+      });
+    } else {
+      this.l1.set({ key, data, ...this.options.l1 });
+    }
+    this.logger.debug({ event: "promote", key });
+  }
+
+  /**
+   * Reads the metadata from L2, where entries keep their original timestamp.
+   */
+  getMetadata(key: CacheKey): CacheEntryMetadata | null {
+    return this.l2.getMetadata?.(key) ?? null;
+  }
+
+  invalidate(key: CacheKeyPattern): void {
+    this.l1.invalidate(key);
+    this.l2.invalidate(key);
+    this.logger.debug({ event: "invalidate", key });
+  }
+
+  invalidateWhere(
+    predicate: CacheEntryPredicate,
+    options?: CacheKeysOptions
+  ): CacheKey[] {
+    const removed = new Map<string, CacheKey>();
+
+    for (const key of [
+      ...this.l1.invalidateWhere(predicate, options),
+      ...this.l2.invalidateWhere(predicate, options),
+    ]) {
+      removed.set(hashKey(key), key);
+    }
+
+    this.logger.debug({
+      event: "invalidateWhere",
+      keys: [...removed.values()],
+    });
+    return [...removed.values()];
+  }
+
+  clear(): void {
+    this.l1.clear();
+    this.l2.clear();
+    this.logger.debug({ event: "clear" });
+  }
+
+  /**
+   * Dehydrates L2, which holds every entry written through this store.
+   */
+  dehydrate(options?: DehydrateOptions): DehydratedCache {
+    return this.l2.dehydrate(options);
+  }
+
+  /**
+   * Hydrates L2 and drops the L1 entries of the restored keys, so they are promoted from L2 on the next read.
+   */
+  hydrate(snapshot: DehydratedCache): CacheKey[] {
+    const restored = this.l2.hydrate(snapshot);
+
+    for (const key of restored) {
+      this.l1.invalidate(key);
+    }
+
+    return restored;
+  }
+
+  cleanUp(): void {
+    this.l1.cleanUp();
+    this.l2.cleanUp();
+  }
+
+  stopGarbageCollector(): void {
+    this.l1.stopGarbageCollector();
+    this.l2.stopGarbageCollector();
+  }
+
+  subscribe(key: CacheKey, listener: CacheListener): () => void {
+    return this.l2.subscribe(key, listener);
+  }
+
+  getStats(): CacheStatsSnapshot {
+    return this.stats.get();
+  }
+
+  resetStats(): void {
+    this.stats.reset();
+  }
+
+  recordEvent(event: CacheStatsEvent): void {
+    this.stats.record(event);
+  }
+}
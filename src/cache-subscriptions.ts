@@ -0,0 +1,46 @@
+import { isKeyPrefix } from "./cache-key";
+import { CacheEvent, CacheKey, CacheListener } from "./cache.types";
+
+interface Subscription {
+  key: CacheKey;
+  listener: CacheListener;
+}
+
+/**
+ * Keeps track of key listeners for a cache store.
+ */
+export class CacheSubscriptions {
+  private subscriptions = new Set<Subscription>();
+
+  /**
+   * Registers a listener for a key and its descendants.
+   * @param {CacheKey} key - The key to listen to.
+   * @param {CacheListener} listener - Called with every matching cache event.
+   * @returns {() => void} A function that removes the listener.
+   */
+  subscribe(key: CacheKey, listener: CacheListener): () => void {
+    const subscription = { key, listener };
+    this.subscriptions.add(subscription);
+
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  /**
+   * Notifies the listeners affected by an event: listeners of the key or one of
+   * its ancestors, and for invalidations also listeners of its descendants,
+   * since those entries are removed with it.
+   * @param {CacheEvent} event - The cache event.
+   */
+  notify(event: CacheEvent): void {
+    for (const { key, listener } of [...this.subscriptions]) {
+      if (
+        isKeyPrefix(key, event.key) ||
+        (event.type === "invalidate" && isKeyPrefix(event.key, key))
+      ) {
+        listener(event);
+      }
+    }
+  }
+}
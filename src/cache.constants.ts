@@ -1,3 +1,11 @@
 export const DEFAULT_GC_INTERVAL = 60000; // 1 minute
 export const DEFAULT_STALE_TIME = 10000; // 10 seconds
 export const DEFAULT_CACHE_TIME = 60000; // 60 seconds
+export const DEFAULT_RETRY_DELAY = 1000; // 1 second
+export const DEFAULT_MAX_RETRY_DELAY = 30000; // 30 seconds
+export const DEFAULT_BUSTER = "";
+
+/**
+ * Key segment matching any value when invalidating, e.g. ["users", WILDCARD, "posts"].
+ */
+export const WILDCARD: unique symbol = Symbol.for("query-with-cache.wildcard");
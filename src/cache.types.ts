@@ -1,6 +1,19 @@
-import { Logger } from "./cache-logger";
+import { LogLevel, Logger } from "./cache-logger";
+import { CacheSerializer } from "./cache-serializer";
+import { WILDCARD } from "./cache.constants";
 
-export type CacheKey = (string | number)[];
+/**
+ * Key segments are strings, numbers, or plain objects and arrays, which are
+ * compared by content.
+ */
+export type CacheKeySegment = string | number | object;
+
+export type CacheKey = CacheKeySegment[];
+
+/**
+ * A key prefix whose segments may be WILDCARD.
+ */
+export type CacheKeyPattern = (CacheKeySegment | typeof WILDCARD)[];
 
 export interface SetCacheParams<T> {
   key: CacheKey;
@@ -18,8 +31,38 @@ export interface CacheOptions {
   gcInterval?: number;
   defaultStaleTime?: number;
   defaultCacheTime?: number;
+  /** Shorthand for logLevel "debug" */
   debug?: boolean;
   logger?: Logger;
+  /** Minimum level of the entries passed to the logger, defaults to "warn" */
+  logLevel?: LogLevel | "silent";
+  /** Maximum number of entries kept by CacheStoreInMemory, least recently used entries are evicted first */
+  maxEntries?: number;
+  /** Approximate maximum size (in bytes) of the data kept by CacheStoreInMemory */
+  maxBytes?: number;
+  /** Version of the cache contents, snapshots dehydrated with another buster are discarded on hydrate */
+  buster?: string;
+  /** Serializer of the entries written by persistent stores, defaults to JSON with Date, Map, Set and BigInt support */
+  serializer?: CacheSerializer;
+  /** Schemas of the entries under a key prefix, checked when the entries are read */
+  schemas?: CacheSchema[];
+  /** Called with every instrumentation event of the store, e.g. to report them to telemetry */
+  onEvent?: (event: CacheStatsEvent) => void;
+  /** Number of key segments the per-prefix stats are grouped by, defaults to 1 */
+  statsPrefixLength?: number;
+}
+
+/**
+ * Versioned shape of the entries under a key prefix. Entries written with
+ * another version, or failing validation, are migrated when migrate is set and
+ * otherwise dropped.
+ */
+export interface CacheSchema {
+  queryKey: CacheKey;
+  schemaVersion: number;
+  validate?: (data: unknown) => boolean;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  migrate?: (oldData: any, fromVersion: number | undefined) => unknown;
 }
 
 export interface CacheEntry<T> {
@@ -27,12 +70,126 @@ export interface CacheEntry<T> {
   timestamp: number;
   staleTime: number;
   cacheTime: number;
+  /** Version of the schema the data was written with */
+  schemaVersion?: number;
+}
+
+/**
+ * Cache entry as kept by the stores, along with its key.
+ */
+export type StoredCacheEntry<T> = CacheEntry<T> & { key?: CacheKey };
+
+export type CacheEntryMetadata = Omit<CacheEntry<unknown>, "data">;
+
+export type CacheEntryPredicate = (
+  key: CacheKey,
+  entry: CacheEntryMetadata
+) => boolean;
+
+/**
+ * Portable snapshot of cache entries, as returned by dehydrate.
+ */
+export interface DehydratedCache {
+  buster: string;
+  entries: DehydratedCacheEntry<unknown>[];
+}
+
+export type DehydratedCacheEntry<T> = CacheEntry<T> & { key: CacheKey };
+
+export interface DehydrateOptions extends CacheKeysOptions {
+  /** Only the entries matching the filter are included */
+  filter?: CacheEntryPredicate;
+}
+
+export interface CacheKeysOptions {
+  /** Only the entries of these exact keys are read, instead of every entry of the store */
+  keys?: CacheKey[];
+}
+
+export type CacheEventType = "set" | "invalidate" | "gc";
+
+export interface CacheEvent {
+  type: CacheEventType;
+  key: CacheKey;
+}
+
+export type CacheListener = (event: CacheEvent) => void;
+
+/**
+ * Instrumentation event: cache reads, the cache events, and the queryFn calls
+ * reported by queryWithCache.
+ */
+export type CacheStatsEvent =
+  | CacheEvent
+  | { type: "hit"; key: CacheKey; stale: boolean }
+  | { type: "miss"; key: CacheKey }
+  | { type: "fetch"; key: CacheKey; duration: number }
+  | { type: "fetchError"; key: CacheKey; duration: number; error: unknown };
+
+export interface CacheCounters {
+  /** Reads that found an entry, stale or not */
+  hits: number;
+  misses: number;
+  staleHits: number;
+  sets: number;
+  invalidations: number;
+  gcEvictions: number;
+  /** queryFn calls, including retries */
+  fetches: number;
+  fetchErrors: number;
+  /** Total time spent in queryFn, in milliseconds */
+  fetchDuration: number;
+}
+
+export interface CacheStatsSnapshot {
+  total: CacheCounters;
+  /** Counters per hashed key prefix */
+  byPrefix: Record<string, CacheCounters>;
 }
 
 export interface CacheStore {
   set<T>(params: SetCacheParams<T>): void;
   get<T>(key: CacheKey): CacheEntryResult<T>;
-  invalidate(key: CacheKey): void;
+  /** Timestamp and times of an entry, used by CacheStoreTiered to promote entries without refreshing them */
+  getMetadata?(key: CacheKey): CacheEntryMetadata | null;
+  invalidate(key: CacheKeyPattern): void;
+  invalidateWhere(
+    predicate: CacheEntryPredicate,
+    options?: CacheKeysOptions
+  ): CacheKey[];
+  clear(): void;
   cleanUp(): void;
+  dehydrate(options?: DehydrateOptions): DehydratedCache;
+  hydrate(snapshot: DehydratedCache): CacheKey[];
   stopGarbageCollector(): void;
+  subscribe(key: CacheKey, listener: CacheListener): () => void;
+  /** The stats methods are optional, queries only record their events in stores that implement them */
+  getStats?(): CacheStatsSnapshot;
+  resetStats?(): void;
+  recordEvent?(event: CacheStatsEvent): void;
 }
+
+/**
+ * Cache store backed by promise-based storage (AsyncStorage, IndexedDB, filesystem, SQLite...).
+ */
+export interface AsyncCacheStore {
+  set<T>(params: SetCacheParams<T>): Promise<void>;
+  get<T>(key: CacheKey): Promise<CacheEntryResult<T>>;
+  getMetadata?(key: CacheKey): Promise<CacheEntryMetadata | null>;
+  invalidate(key: CacheKeyPattern): Promise<void>;
+  invalidateWhere(
+    predicate: CacheEntryPredicate,
+    options?: CacheKeysOptions
+  ): Promise<CacheKey[]>;
+  clear(): Promise<void>;
+  cleanUp(): Promise<void>;
+  dehydrate(options?: DehydrateOptions): Promise<DehydratedCache>;
+  hydrate(snapshot: DehydratedCache): Promise<CacheKey[]>;
+  stopGarbageCollector(): void;
+  subscribe(key: CacheKey, listener: CacheListener): () => void;
+  getStats?(): CacheStatsSnapshot;
+  resetStats?(): void;
+  recordEvent?(event: CacheStatsEvent): void;
+}
+
+export type AnyCacheStore = CacheStore | AsyncCacheStore;
@@ -0,0 +1,25 @@
+// Platform-neutral modules, shared by every entry point
+export * from "./query-with-cache";
+export * from "./infinite-query-with-cache";
+export * from "./cache.types";
+export * from "./cache-logger";
+export * from "./cache.constants";
+export * from "./cache-store-in-memory";
+export * from "./cache-store-key-value";
+export * from "./cache-store-tiered";
+export * from "./storage-adapter";
+export * from "./cache-serializer";
+export * from "./query-retry";
+export * from "./query-errors";
+export * from "./query-structural-sharing";
+export * from "./query-client";
+export * from "./cache-subscriptions";
+export * from "./cache-stats";
+export * from "./mutate-with-cache";
+export * from "./mutation-queue";
+export * from "./watch-query";
+export * from "./visibility-source";
+export * from "./focus-manager";
+export * from "./online-manager";
+export * from "./query-revalidation";
+export * from "./cache-key";
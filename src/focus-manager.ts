@@ -0,0 +1,54 @@
+import { SignalManager } from "./signal-manager";
+import {
+  VisibilityListener,
+  VisibilitySource,
+  getDefaultVisibilitySource,
+} from "./visibility-source";
+
+const toSignalSource = (source: VisibilitySource) => ({
+  read: () => source.isVisible(),
+  subscribe: (listener: VisibilityListener) => source.subscribe(listener),
+});
+
+/**
+ * Tracks whether the app is focused. The focus comes from a visibility source
+ * (the document visibility in browsers by default) and can be set manually.
+ * The manager is itself a visibility source, used by watchQuery.
+ */
+export class FocusManager extends SignalManager implements VisibilitySource {
+  /**
+   * @param {VisibilitySource} source - The source of the focus events.
+   */
+  constructor(source: VisibilitySource = getDefaultVisibilitySource()) {
+    super(toSignalSource(source));
+  }
+
+  /**
+   * Replaces the source of the focus events, e.g. with React Native's AppState.
+   * @param {VisibilitySource} source - The new source.
+   */
+  setEventSource(source: VisibilitySource): void {
+    this.setSource(toSignalSource(source));
+  }
+
+  /**
+   * Overrides the focus, or hands it back to the source when undefined.
+   * @param {boolean | undefined} focused - The focus state.
+   */
+  setFocused(focused: boolean | undefined): void {
+    this.setOverride(focused);
+  }
+
+  isFocused(): boolean {
+    return this.read();
+  }
+
+  isVisible(): boolean {
+    return this.read();
+  }
+}
+
+/**
+ * Focus manager shared by every query.
+ */
+export const focusManager = new FocusManager();
@@ -1,6 +1,2 @@
-export * from "./query-with-cache";
-export * from "./cache.types";
-export * from "./cache-logger";
-export * from "./cache.constants";
-export * from "./cache-store-in-memory";
+export * from "./core";
 export * from "./cache-store-in-mmkv";
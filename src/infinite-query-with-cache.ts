@@ -0,0 +1,220 @@
+import {
+  QueryFunctionContext,
+  QueryWithCacheParams,
+  queryWithCache,
+} from "./query-with-cache";
+
+/**
+ * Cached data of an infinite query: the pages in display order and the param each page was fetched with.
+ */
+export interface InfiniteData<TPage, TPageParam> {
+  pages: TPage[];
+  pageParams: TPageParam[];
+}
+
+export interface InfiniteQueryFunctionContext<TPageParam>
+  extends QueryFunctionContext {
+  pageParam: TPageParam;
+}
+
+/**
+ * Returns the param of the page after the last one (or before the first one),
+ * or null/undefined when there is none.
+ */
+export type GetPageParam<TPage, TPageParam> = (
+  page: TPage,
+  pages: TPage[],
+  pageParam: TPageParam,
+  pageParams: TPageParam[]
+) => TPageParam | null | undefined;
+
+export interface InfiniteQueryWithCacheParams<TPage, TPageParam>
+  extends Omit<
+    QueryWithCacheParams<InfiniteData<TPage, TPageParam>>,
+    "queryFn" | "force"
+  > {
+  queryFn: (
+    context: InfiniteQueryFunctionContext<TPageParam>
+  ) => Promise<TPage>;
+  /** Param of the first page */
+  initialPageParam: TPageParam;
+  /** Called with the last page */
+  getNextPageParam: GetPageParam<TPage, TPageParam>;
+  /** Called with the first page */
+  getPreviousPageParam?: GetPageParam<TPage, TPageParam>;
+  onIsFetchingNextPage?: (isFetching: boolean) => void;
+  onIsFetchingPreviousPage?: (isFetching: boolean) => void;
+}
+
+type PageDirection = "next" | "previous";
+
+const getPageParam = <TPage, TPageParam>(
+  {
+    getNextPageParam,
+    getPreviousPageParam,
+  }: InfiniteQueryWithCacheParams<TPage, TPageParam>,
+  { pages, pageParams }: InfiniteData<TPage, TPageParam>,
+  direction: PageDirection
+): TPageParam | null | undefined => {
+  if (pages.length === 0) {
+    return null;
+  }
+
+  return direction === "next"
+    ? getNextPageParam(
+        pages[pages.length - 1],
+        pages,
+        pageParams[pageParams.length - 1],
+        pageParams
+      )
+    : getPreviousPageParam?.(pages[0], pages, pageParams[0], pageParams);
+};
+
+/**
+ * Fetches the pages again one after the other, from the first cached page
+ * param, computing every following param from the freshly fetched pages so the
+ * list stays consistent. Stops early when there is no next page anymore.
+ */
+const refetchPages = async <TPage, TPageParam>(
+  params: InfiniteQueryWithCacheParams<TPage, TPageParam>,
+  cached: InfiniteData<TPage, TPageParam> | null,
+  { signal }: QueryFunctionContext
+): Promise<InfiniteData<TPage, TPageParam>> => {
+  const data: InfiniteData<TPage, TPageParam> = { pages: [], pageParams: [] };
+  const pageCount = Math.max(cached?.pages.length ?? 0, 1);
+  let pageParam: TPageParam | null | undefined =
+    cached?.pageParams[0] ?? params.initialPageParam;
+
+  while (data.pages.length < pageCount && pageParam != null) {
+    data.pages.push(await params.queryFn({ signal, pageParam }));
+    data.pageParams.push(pageParam);
+    pageParam =
+      data.pages.length < pageCount ? getPageParam(params, data, "next") : null;
+  }
+
+  return data;
+};
+
+/**
+ * queryWithCache for paginated data: every page is stored under the same key
+ * as { pages, pageParams }, so the list is refetched and invalidated as a
+ * whole. A miss fetches the first page; a stale entry is emitted, then every
+ * cached page is refetched sequentially. More pages are loaded with fetchNextPage
+ * and fetchPreviousPage.
+ * @param {InfiniteQueryWithCacheParams<TPage, TPageParam>} params - The query parameters.
+ */
+export const infiniteQueryWithCache = <TPage, TPageParam>(
+  params: InfiniteQueryWithCacheParams<TPage, TPageParam>
+): Promise<void> => {
+  const { cache, queryKey } = params;
+
+  return queryWithCache<InfiniteData<TPage, TPageParam>>({
+    ...params,
+    queryFn: async (context) => {
+      const { data } =
+        await cache.get<InfiniteData<TPage, TPageParam>>(queryKey);
+      return refetchPages(params, data, context);
+    },
+  });
+};
+
+const fetchPage = async <TPage, TPageParam>(
+  params: InfiniteQueryWithCacheParams<TPage, TPageParam>,
+  direction: PageDirection
+): Promise<void> => {
+  const { cache, queryKey } = params;
+  const { data } = await cache.get<InfiniteData<TPage, TPageParam>>(queryKey);
+
+  if (!data) {
+    return infiniteQueryWithCache(params);
+  }
+  if (getPageParam(params, data, direction) == null) {
+    return;
+  }
+
+  const onIsFetchingPage =
+    direction === "next"
+      ? params.onIsFetchingNextPage
+      : params.onIsFetchingPreviousPage;
+
+  onIsFetchingPage?.(true);
+  try {
+    // A fetch already in flight for the key is joined instead of calling the
+    // queryFn below: once it settles, fetch again to load the page on top of it
+    let pageFetched = false;
+    while (!pageFetched && !params.signal?.aborted) {
+      await queryWithCache<InfiniteData<TPage, TPageParam>>({
+        ...params,
+        force: true,
+        // Reads the entry again at fetch time, in case it changed since the check above
+        queryFn: async ({ signal }) => {
+          pageFetched = true;
+          const { data: current } =
+            await cache.get<InfiniteData<TPage, TPageParam>>(queryKey);
+          if (!current) {
+            return refetchPages(params, null, { signal });
+          }
+
+          const pageParam = getPageParam(params, current, direction);
+          if (pageParam == null) {
+            return current;
+          }
+
+          const page = await params.queryFn({ signal, pageParam });
+          return direction === "next"
+            ? {
+                pages: [...current.pages, page],
+                pageParams: [...current.pageParams, pageParam],
+              }
+            : {
+                pages: [page, ...current.pages],
+                pageParams: [pageParam, ...current.pageParams],
+              };
+        },
+      });
+    }
+  } finally {
+    onIsFetchingPage?.(false);
+  }
+};
+
+/**
+ * Fetches the page after the last cached one and appends it to the entry.
+ * Does nothing when getNextPageParam returns null or undefined; loads the
+ * first page when the entry is missing.
+ * @param {InfiniteQueryWithCacheParams<TPage, TPageParam>} params - The query parameters.
+ */
+export const fetchNextPage = <TPage, TPageParam>(
+  params: InfiniteQueryWithCacheParams<TPage, TPageParam>
+): Promise<void> => fetchPage(params, "next");
+
+/**
+ * Fetches the page before the first cached one and prepends it to the entry.
+ * Does nothing without getPreviousPageParam, or when it returns null or undefined.
+ * @param {InfiniteQueryWithCacheParams<TPage, TPageParam>} params - The query parameters.
+ */
+export const fetchPreviousPage = <TPage, TPageParam>(
+  params: InfiniteQueryWithCacheParams<TPage, TPageParam>
+): Promise<void> => fetchPage(params, "previous");
+
+/**
+ * Checks whether there is a page after the last one of the data.
+ * @param {InfiniteQueryWithCacheParams<TPage, TPageParam>} params - The query parameters.
+ * @param {InfiniteData<TPage, TPageParam>} data - The infinite query data.
+ * @returns {boolean} True if getNextPageParam returns a param.
+ */
+export const hasNextPage = <TPage, TPageParam>(
+  params: InfiniteQueryWithCacheParams<TPage, TPageParam>,
+  data: InfiniteData<TPage, TPageParam>
+): boolean => getPageParam(params, data, "next") != null;
+
+/**
+ * Checks whether there is a page before the first one of the data.
+ * @param {InfiniteQueryWithCacheParams<TPage, TPageParam>} params - The query parameters.
+ * @param {InfiniteData<TPage, TPageParam>} data - The infinite query data.
+ * @returns {boolean} True if getPreviousPageParam returns a param.
+ */
+export const hasPreviousPage = <TPage, TPageParam>(
+  params: InfiniteQueryWithCacheParams<TPage, TPageParam>,
+  data: InfiniteData<TPage, TPageParam>
+): boolean => getPageParam(params, data, "previous") != null;
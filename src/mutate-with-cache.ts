@@ -0,0 +1,141 @@
+import { hashKey } from "./cache-key";
+import {
+  CacheKey,
+  CacheKeyPattern,
+  CacheStore,
+  DehydratedCache,
+} from "./cache.types";
+
+/**
+ * Optimistic write applied to a cache entry before the mutation runs.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export interface OptimisticUpdate<TVariables, TCached = any> {
+  key: CacheKey;
+  update: (previous: TCached | null, variables: TVariables) => TCached;
+}
+
+/**
+ * Write applied to a cache entry with the mutation result.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export interface CacheUpdate<TData, TVariables, TCached = any> {
+  key: CacheKey;
+  update: (
+    previous: TCached | null,
+    data: TData,
+    variables: TVariables
+  ) => TCached;
+}
+
+export interface MutateWithCacheParams<TData, TVariables, TContext = unknown> {
+  cache: CacheStore;
+  variables: TVariables;
+  mutationFn: (variables: TVariables) => Promise<TData>;
+  optimistic?: OptimisticUpdate<TVariables>[];
+  invalidateKeys?: CacheKeyPattern[];
+  updateKeys?: CacheUpdate<TData, TVariables>[];
+  onMutate?: (variables: TVariables) => TContext | Promise<TContext>;
+  onSuccess?: (
+    data: TData,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => void;
+  onError?: (
+    error: unknown,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => void;
+}
+
+/**
+ * Captures the entries touched by the optimistic writes, with their timestamps
+ * and times. The entries are read by key; the filter only matters for stores
+ * that don't support the keys option and scan every entry.
+ */
+const takeSnapshot = (cache: CacheStore, keys: CacheKey[]): DehydratedCache => {
+  const hashes = new Set(keys.map(hashKey));
+  return cache.dehydrate({ keys, filter: (key) => hashes.has(hashKey(key)) });
+};
+
+/**
+ * Restores the entries captured before the optimistic writes as they were,
+ * so a stale entry stays stale. Entries that did not exist (or have expired
+ * since) are removed, without touching their descendants.
+ */
+const restoreSnapshot = (
+  cache: CacheStore,
+  keys: CacheKey[],
+  snapshot: DehydratedCache
+) => {
+  const restored = new Set(cache.hydrate(snapshot).map(hashKey));
+  const removed = keys.filter((key) => !restored.has(hashKey(key)));
+
+  if (removed.length > 0) {
+    const hashes = new Set(removed.map(hashKey));
+    cache.invalidateWhere((key) => hashes.has(hashKey(key)), {
+      keys: removed,
+    });
+  }
+};
+
+/**
+ * Runs a mutation with optional optimistic cache writes. The entries touched by
+ * the optimistic writes are restored if the mutation fails; on success the
+ * listed keys are updated or invalidated. The mutation result itself is never
+ * cached as a query.
+ * @param {MutateWithCacheParams<TData, TVariables, TContext>} params - The mutation parameters.
+ * @returns {Promise<TData | undefined>} The mutation result, or undefined when the failure was handled by onError.
+ */
+export const mutateWithCache = async <
+  TData,
+  TVariables = void,
+  TContext = unknown,
+>({
+  cache,
+  variables,
+  mutationFn,
+  optimistic = [],
+  invalidateKeys = [],
+  updateKeys = [],
+  onMutate,
+  onSuccess,
+  onError,
+}: MutateWithCacheParams<TData, TVariables, TContext>): Promise<
+  TData | undefined
+> => {
+  const optimisticKeys = optimistic.map(({ key }) => key);
+  const snapshot = takeSnapshot(cache, optimisticKeys);
+  let context: TContext | undefined;
+  let data: TData;
+
+  try {
+    context = await onMutate?.(variables);
+
+    for (const { key, update } of optimistic) {
+      cache.set({ key, data: update(cache.get(key).data, variables) });
+    }
+
+    data = await mutationFn(variables);
+  } catch (error) {
+    restoreSnapshot(cache, optimisticKeys, snapshot);
+
+    if (onError) {
+      onError(error, variables, context);
+      return undefined;
+    }
+    throw error;
+  }
+
+  for (const { key, update } of updateKeys) {
+    cache.set({ key, data: update(cache.get(key).data, data, variables) });
+  }
+
+  for (const key of invalidateKeys) {
+    cache.invalidate(key);
+  }
+
+  onSuccess?.(data, variables, context);
+
+  return data;
+};
@@ -0,0 +1,242 @@
+import { Logger, createStoreLogger } from "./cache-logger";
+import { CacheSerializer, defaultSerializer } from "./cache-serializer";
+import { CacheOptions } from "./cache.types";
+import { OnlineManager, onlineManager } from "./online-manager";
+import { RetryOptions, runWithRetry } from "./query-retry";
+import { StorageAdapter } from "./storage-adapter";
+
+/**
+ * A write waiting to be sent, persisted with the name of its mutation function.
+ */
+export interface QueuedMutation<TVariables = unknown> {
+  id: string;
+  mutationKey: string;
+  variables: TVariables;
+  createdAt: number;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type QueuedMutationFunction = (variables: any) => Promise<unknown>;
+
+export interface MutationQueueOptions
+  extends Pick<CacheOptions, "logger" | "logLevel" | "debug">,
+    Pick<RetryOptions, "retry" | "retryDelay"> {
+  storage: StorageAdapter;
+  /** Mutation functions by mutation key; functions can't be persisted, so queued writes refer to them by name */
+  mutationFns: Record<string, QueuedMutationFunction>;
+  /** Storage key of the queue, defaults to "mutation-queue" */
+  storageKey?: string;
+  serializer?: CacheSerializer;
+  /** Defaults to the shared online manager */
+  onlineManager?: OnlineManager;
+  onSuccess?: (data: unknown, mutation: QueuedMutation) => void;
+  onError?: (error: unknown, mutation: QueuedMutation) => void;
+  /** Tells whether a write that failed while online is dropped, e.g. on a 4xx error; by default it is kept at the head of the queue */
+  shouldDrop?: (error: unknown, mutation: QueuedMutation) => boolean;
+}
+
+let lastId = 0;
+
+const createId = () => `${Date.now().toString(36)}-${(++lastId).toString(36)}`;
+
+/**
+ * Persisted queue of pending writes. Writes are sent one at a time in the
+ * order they were queued, as soon as the device is online; the queue replays
+ * by itself when connectivity comes back and when it is created with writes
+ * left from a previous session. A failing write stays at the head of the queue
+ * and stops the replay until the next one; a write failing while online is
+ * retried according to retry, reported to onError, and dropped only when shouldDrop says so.
+ */
+export class MutationQueue {
+  private logger: Logger;
+  private serializer: CacheSerializer;
+  private onlineManager: OnlineManager;
+  private storageKey: string;
+  private replaying: Promise<void> | null = null;
+  private unsubscribeOnline: () => void;
+
+  constructor(private options: MutationQueueOptions) {
+    this.logger = createStoreLogger(options);
+    this.serializer = options.serializer ?? defaultSerializer;
+    this.onlineManager = options.onlineManager ?? onlineManager;
+    this.storageKey = options.storageKey ?? "mutation-queue";
+
+    this.unsubscribeOnline = this.onlineManager.subscribe((online) => {
+      if (online) {
+        this.replayInBackground();
+      }
+    });
+    this.replayInBackground();
+  }
+
+  private read(): QueuedMutation[] {
+    const payload = this.options.storage.getString(this.storageKey);
+    if (!payload) {
+      return [];
+    }
+
+    try {
+      const mutations = this.serializer.deserialize(payload);
+      if (Array.isArray(mutations)) {
+        return mutations as QueuedMutation[];
+      }
+      this.logger.error({ event: "corruptQueue", storageKey: this.storageKey });
+    } catch (error) {
+      this.logger.error({
+        event: "corruptQueue",
+        storageKey: this.storageKey,
+        error,
+      });
+    }
+
+    this.options.storage.delete(this.storageKey);
+    return [];
+  }
+
+  private write(mutations: QueuedMutation[]): void {
+    if (mutations.length === 0) {
+      this.options.storage.delete(this.storageKey);
+    } else {
+      this.options.storage.set(
+        this.storageKey,
+        this.serializer.serialize(mutations)
+      );
+    }
+  }
+
+  private remove(id: string): void {
+    this.write(this.read().filter((mutation) => mutation.id !== id));
+  }
+
+  /**
+   * Returns the writes waiting to be sent, in order.
+   * @returns {QueuedMutation[]} The pending writes.
+   */
+  getPending(): QueuedMutation[] {
+    return this.read();
+  }
+
+  /**
+   * Queues a write and starts the replay if the device is online.
+   * @param {string} mutationKey - The name of the mutation function.
+   * @param {TVariables} variables - The variables passed to the mutation function, persisted with the serializer.
+   * @returns {QueuedMutation<TVariables>} The queued write.
+   */
+  enqueue<TVariables>(
+    mutationKey: string,
+    variables: TVariables
+  ): QueuedMutation<TVariables> {
+    const mutation = {
+      id: createId(),
+      mutationKey,
+      variables,
+      createdAt: Date.now(),
+    };
+
+    this.write([...this.read(), mutation]);
+    this.logger.debug({ event: "enqueue", mutationKey, id: mutation.id });
+    this.replayInBackground();
+
+    return mutation;
+  }
+
+  /**
+   * Sends the pending writes in order, until the queue is empty or the device
+   * goes offline. Concurrent calls share the same replay.
+   * @returns {Promise<void>} A promise resolved when the replay stops.
+   */
+  replay(): Promise<void> {
+    if (!this.replaying) {
+      this.replaying = this.drain().finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  private replayInBackground(): void {
+    this.replay().catch((error) => {
+      this.logger.error({ event: "replayError", error });
+    });
+  }
+
+  /**
+   * Calls onSuccess or onError, so that a throwing callback doesn't stop the replay.
+   */
+  private callback(name: "onSuccess" | "onError", run: () => void): void {
+    try {
+      run();
+    } catch (error) {
+      this.logger.error({ event: "callbackError", callback: name, error });
+    }
+  }
+
+  private async drain(): Promise<void> {
+    while (this.onlineManager.isOnline()) {
+      const [mutation] = this.read();
+      if (!mutation) {
+        return;
+      }
+
+      const { mutationKey, variables, id } = mutation;
+      const mutationFn = this.options.mutationFns[mutationKey];
+
+      if (!mutationFn) {
+        this.remove(id);
+        this.logger.error({ event: "unknownMutation", mutationKey, id });
+        this.callback("onError", () =>
+          this.options.onError?.(
+            new Error(`No mutation function for "${mutationKey}"`),
+            mutation
+          )
+        );
+        continue;
+      }
+
+      const { retry, retryDelay, shouldDrop } = this.options;
+      let data: unknown;
+      try {
+        data = await runWithRetry(() => mutationFn(variables), {
+          retry,
+          retryDelay,
+        });
+      } catch (error) {
+        if (!this.onlineManager.isOnline()) {
+          this.logger.debug({ event: "replayPaused", mutationKey, id });
+          return;
+        }
+
+        const drop = shouldDrop?.(error, mutation) ?? false;
+        if (drop) {
+          this.remove(id);
+        }
+        this.logger.error({
+          event: "replayFailed",
+          mutationKey,
+          id,
+          error,
+          drop,
+        });
+        this.callback("onError", () => this.options.onError?.(error, mutation));
+
+        if (!drop) {
+          return;
+        }
+        continue;
+      }
+
+      this.remove(id);
+      this.logger.debug({ event: "replay", mutationKey, id });
+      this.callback("onSuccess", () =>
+        this.options.onSuccess?.(data, mutation)
+      );
+    }
+  }
+
+  /**
+   * Stops replaying when connectivity comes back. Pending writes stay persisted.
+   */
+  stop(): void {
+    this.unsubscribeOnline();
+  }
+}
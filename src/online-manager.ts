@@ -0,0 +1,161 @@
+import { CancelledError } from "./query-errors";
+import { SignalManager } from "./signal-manager";
+
+export type OnlineListener = (isOnline: boolean) => void;
+
+/**
+ * Tells whether the device is online, and when that changes.
+ */
+export interface OnlineSource {
+  isOnline(): boolean;
+  subscribe(listener: OnlineListener): () => void;
+}
+
+/**
+ * Online source for environments without connectivity events, e.g. Node.
+ */
+export const alwaysOnlineSource: OnlineSource = {
+  isOnline: () => true,
+  subscribe: () => () => undefined,
+};
+
+/**
+ * Online source backed by navigator.onLine and the window online/offline events.
+ * @param {Window} target - The window to watch, defaults to the global window.
+ * @returns {OnlineSource} The online source.
+ */
+export const createNavigatorOnlineSource = (
+  target: Window = window
+): OnlineSource => ({
+  isOnline: () => target.navigator.onLine !== false,
+  subscribe: (listener) => {
+    const onOnline = () => listener(true);
+    const onOffline = () => listener(false);
+    target.addEventListener("online", onOnline);
+    target.addEventListener("offline", onOffline);
+    return () => {
+      target.removeEventListener("online", onOnline);
+      target.removeEventListener("offline", onOffline);
+    };
+  },
+});
+
+/**
+ * Minimal shape of the @react-native-community/netinfo module.
+ */
+export interface NetInfoLike {
+  addEventListener(
+    listener: (state: { isConnected: boolean | null }) => void
+  ): () => void;
+}
+
+/**
+ * Online source backed by NetInfo. The device is considered online until
+ * NetInfo reports otherwise; an unknown state (null) counts as online.
+ * @param {NetInfoLike} netInfo - The NetInfo module.
+ * @returns {OnlineSource} The online source.
+ */
+export const createNetInfoOnlineSource = (
+  netInfo: NetInfoLike
+): OnlineSource => {
+  let online = true;
+
+  return {
+    isOnline: () => online,
+    subscribe: (listener) =>
+      netInfo.addEventListener((state) => {
+        online = state.isConnected !== false;
+        listener(online);
+      }),
+  };
+};
+
+/**
+ * Returns the online source of the current environment: the navigator in
+ * browsers, otherwise a source that is always online.
+ * @returns {OnlineSource} The online source.
+ */
+export const getDefaultOnlineSource = (): OnlineSource =>
+  typeof window !== "undefined" &&
+  typeof window.addEventListener === "function" &&
+  typeof window.navigator !== "undefined"
+    ? createNavigatorOnlineSource(window)
+    : alwaysOnlineSource;
+
+const toSignalSource = (source: OnlineSource) => ({
+  read: () => source.isOnline(),
+  subscribe: (listener: OnlineListener) => source.subscribe(listener),
+});
+
+/**
+ * Tracks whether the device is online. The state comes from an online source
+ * (navigator.onLine in browsers by default) and can be set manually.
+ */
+export class OnlineManager extends SignalManager {
+  /**
+   * @param {OnlineSource} source - The source of the connectivity events.
+   */
+  constructor(source: OnlineSource = getDefaultOnlineSource()) {
+    super(toSignalSource(source));
+  }
+
+  /**
+   * Replaces the source of the connectivity events, e.g. with NetInfo.
+   * @param {OnlineSource} source - The new source.
+   */
+  setEventSource(source: OnlineSource): void {
+    this.setSource(toSignalSource(source));
+  }
+
+  /**
+   * Overrides the connectivity, or hands it back to the source when undefined.
+   * @param {boolean | undefined} online - The online state.
+   */
+  setOnline(online: boolean | undefined): void {
+    this.setOverride(online);
+  }
+
+  isOnline(): boolean {
+    return this.read();
+  }
+}
+
+/**
+ * Online manager shared by every query.
+ */
+export const onlineManager = new OnlineManager();
+
+/**
+ * Resolves once the device is online, right away if it already is.
+ * Rejects with a CancelledError as soon as the signal aborts.
+ * @param {AbortSignal} signal - Optional abort signal.
+ * @param {OnlineManager} manager - The online manager, defaults to the shared one.
+ * @returns {Promise<void>} A promise resolved when online.
+ */
+export const waitForOnline = (
+  signal?: AbortSignal,
+  manager: OnlineManager = onlineManager
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError(signal.reason));
+      return;
+    }
+    if (manager.isOnline()) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      unsubscribe();
+      reject(new CancelledError(signal?.reason));
+    };
+    const unsubscribe = manager.subscribe((online) => {
+      if (online) {
+        unsubscribe();
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }
+    });
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
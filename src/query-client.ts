@@ -0,0 +1,299 @@
+import { isKeyPrefix } from "./cache-key";
+import {
+  CacheEntryPredicate,
+  CacheKey,
+  CacheKeyPattern,
+  CacheStore,
+} from "./cache.types";
+import { isCancelledError } from "./query-errors";
+import { RetryOptions } from "./query-retry";
+import {
+  EnsureQueryDataParams,
+  FetchWithCacheParams,
+  NetworkMode,
+  QueryWithCacheParams,
+  fetchWithCache,
+  queryWithCache,
+} from "./query-with-cache";
+
+/**
+ * Query options that can be configured once on the client.
+ */
+export interface QueryDefaults extends RetryOptions {
+  cacheExpirationTime?: number;
+  cacheStoredTime?: number;
+  networkMode?: NetworkMode;
+}
+
+export interface QueryDefaultsEntry {
+  queryKey: CacheKey;
+  options: QueryDefaults;
+}
+
+export interface QueryClientOptions {
+  cache: CacheStore;
+  defaultOptions?: QueryDefaults;
+  queryDefaults?: QueryDefaultsEntry[];
+  onError?: (error: unknown, queryKey: CacheKey) => void;
+  onSuccess?: (data: unknown, queryKey: CacheKey) => void;
+}
+
+export type ClientQueryParams<T> = Omit<QueryWithCacheParams<T>, "cache">;
+
+export type ClientFetchParams<T> = Omit<FetchWithCacheParams<T>, "cache">;
+
+export type ClientEnsureParams<T> = Omit<EnsureQueryDataParams<T>, "cache">;
+
+export interface SetQueryDataOptions {
+  staleTime?: number;
+  cacheTime?: number;
+}
+
+export type QueryDataUpdater<T> = T | ((previous: T | null) => T);
+
+interface ClientQuery<T> {
+  params: FetchWithCacheParams<T>;
+  /** Reports the data to the onSuccess hook if the query called its queryFn */
+  reportSuccess: () => void;
+}
+
+export class QueryClient {
+  private cache: CacheStore;
+  private queryDefaults: QueryDefaultsEntry[];
+
+  /**
+   * Creates a client that owns a cache store and the default options of every query made through it.
+   * @param {QueryClientOptions} options - The cache store, default options and global hooks.
+   */
+  constructor(private options: QueryClientOptions) {
+    this.cache = options.cache;
+    this.queryDefaults = [...(options.queryDefaults ?? [])];
+  }
+
+  /**
+   * Returns the underlying cache store.
+   * @returns {CacheStore} The cache store.
+   */
+  getCache(): CacheStore {
+    return this.cache;
+  }
+
+  /**
+   * Sets the default options for every query whose key starts with the given prefix.
+   * @param {CacheKey} queryKey - The key prefix.
+   * @param {QueryDefaults} options - The default options.
+   */
+  setQueryDefaults(queryKey: CacheKey, options: QueryDefaults): void {
+    this.queryDefaults = this.queryDefaults.filter(
+      (entry) =>
+        entry.queryKey.length !== queryKey.length ||
+        !isKeyPrefix(entry.queryKey, queryKey)
+    );
+    this.queryDefaults.push({ queryKey, options });
+  }
+
+  /**
+   * Resolves the options for a key: client defaults, then prefix defaults
+   * from the least to the most specific prefix.
+   * @param {CacheKey} queryKey - The query key.
+   * @returns {QueryDefaults} The merged options.
+   */
+  getQueryDefaults(queryKey: CacheKey): QueryDefaults {
+    return this.queryDefaults
+      .filter((entry) => isKeyPrefix(entry.queryKey, queryKey))
+      .sort((a, b) => a.queryKey.length - b.queryKey.length)
+      .reduce<QueryDefaults>(
+        (merged, entry) => ({ ...merged, ...entry.options }),
+        { ...this.options.defaultOptions }
+      );
+  }
+
+  /**
+   * Applies the default options to the parameters of a query, and records the
+   * result of its queryFn so that onSuccess is only called once the query has
+   * settled: after the result is cached, and never for a cancelled fetch.
+   */
+  private withDefaults<T>({
+    queryKey,
+    queryFn,
+    ...params
+  }: ClientFetchParams<T>): ClientQuery<T> {
+    let fetched: { data: T } | null = null;
+
+    return {
+      params: {
+        ...this.getQueryDefaults(queryKey),
+        ...params,
+        queryKey,
+        cache: this.cache,
+        queryFn: async (context) => {
+          const data = await queryFn(context);
+          fetched = { data };
+          return data;
+        },
+      },
+      reportSuccess: () => {
+        if (!fetched) {
+          return;
+        }
+        try {
+          this.options.onSuccess?.(fetched.data, queryKey);
+        } catch {
+          // A throwing hook doesn't fail a query that succeeded
+        }
+      },
+    };
+  }
+
+  /**
+   * Reports a query error to the global onError hook, except cancellations.
+   */
+  private reportError(error: unknown, queryKey: CacheKey): void {
+    if (!isCancelledError(error)) {
+      this.options.onError?.(error, queryKey);
+    }
+  }
+
+  /**
+   * Runs queryWithCache against the client's cache, applying the default options and global hooks.
+   * @param {ClientQueryParams<T>} params - The query parameters.
+   */
+  async query<T>({
+    onData,
+    onError,
+    ...params
+  }: ClientQueryParams<T>): Promise<void> {
+    const query = this.withDefaults(params);
+    let failed = false;
+
+    await queryWithCache<T>({
+      ...query.params,
+      onData,
+      onError: (error) => {
+        failed = true;
+        this.reportError(error, params.queryKey);
+
+        if (!onError) {
+          throw error;
+        }
+        onError(error);
+      },
+    });
+
+    if (!failed) {
+      query.reportSuccess();
+    }
+  }
+
+  /**
+   * Resolves with the cached data when it is fresh, otherwise with the result of a fetch.
+   * @param {ClientFetchParams<T>} params - The query parameters.
+   * @returns {Promise<T>} The query data.
+   */
+  async fetchQuery<T>(params: ClientFetchParams<T>): Promise<T> {
+    const query = this.withDefaults(params);
+    let data: T;
+
+    try {
+      data = await fetchWithCache<T>(query.params);
+    } catch (error) {
+      this.reportError(error, params.queryKey);
+      throw error;
+    }
+
+    query.reportSuccess();
+    return data;
+  }
+
+  /**
+   * Resolves with the cached data even when it is stale, revalidating it in the
+   * background, and fetches on a miss.
+   * @param {ClientEnsureParams<T>} params - The query parameters.
+   * @returns {Promise<T>} The query data.
+   */
+  async ensureQueryData<T>({
+    onError,
+    ...params
+  }: ClientEnsureParams<T>): Promise<T> {
+    const { data, stale } = this.cache.get<T>(params.queryKey);
+
+    if (!data) {
+      return this.fetchQuery(params);
+    }
+
+    // Goes through fetchQuery so the revalidation reaches the global hooks once it settles
+    if (stale) {
+      this.fetchQuery(params).catch((error) => onError?.(error));
+    }
+
+    return data;
+  }
+
+  /**
+   * Fills the cache ahead of time. Errors are only reported to the global onError hook.
+   * @param {ClientFetchParams<T>} params - The query parameters.
+   */
+  async prefetchQuery<T>(params: ClientFetchParams<T>): Promise<void> {
+    try {
+      await this.fetchQuery(params);
+    } catch {
+      // Prefetching is best effort
+    }
+  }
+
+  /**
+   * Reads the cached data for a key, stale or not.
+   * @param {CacheKey} queryKey - The query key.
+   * @returns {T | null} The cached data, or null on a miss.
+   */
+  getQueryData<T>(queryKey: CacheKey): T | null {
+    return this.cache.get<T>(queryKey).data;
+  }
+
+  /**
+   * Writes data for a key, either directly or through an updater receiving the cached data.
+   * @param {CacheKey} queryKey - The query key.
+   * @param {QueryDataUpdater<T>} updater - The new data or a function returning it.
+   * @param {SetQueryDataOptions} options - Optional stale and cache times.
+   * @returns {T} The data that was written.
+   */
+  setQueryData<T>(
+    queryKey: CacheKey,
+    updater: QueryDataUpdater<T>,
+    options: SetQueryDataOptions = {}
+  ): T {
+    const data =
+      typeof updater === "function"
+        ? (updater as (previous: T | null) => T)(this.getQueryData<T>(queryKey))
+        : updater;
+    const defaults = this.getQueryDefaults(queryKey);
+
+    this.cache.set({
+      key: queryKey,
+      data,
+      staleTime: options.staleTime ?? defaults.cacheExpirationTime,
+      cacheTime: options.cacheTime ?? defaults.cacheStoredTime,
+    });
+
+    return data;
+  }
+
+  /**
+   * Removes the entries for a key and all its descendants, or every entry matching a predicate.
+   * @param {CacheKeyPattern | CacheEntryPredicate} filter - The key prefix to invalidate (may contain wildcards) or a predicate.
+   */
+  invalidateQueries(filter: CacheKeyPattern | CacheEntryPredicate): void {
+    if (typeof filter === "function") {
+      this.cache.invalidateWhere(filter);
+    } else {
+      this.cache.invalidate(filter);
+    }
+  }
+
+  /**
+   * Removes every entry from the cache.
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Reported instead of a query error when the query was aborted through its AbortSignal.
+ */
+export class CancelledError extends Error {
+  constructor(public readonly reason?: unknown) {
+    super("Query was cancelled");
+    this.name = "CancelledError";
+  }
+}
+
+/**
+ * Checks whether an error reported by a query is a cancellation.
+ * @param {unknown} error - The error to check.
+ * @returns {boolean} True if the query was cancelled.
+ */
+export const isCancelledError = (error: unknown): error is CancelledError =>
+  error instanceof CancelledError;
@@ -0,0 +1,111 @@
+import {
+  DEFAULT_MAX_RETRY_DELAY,
+  DEFAULT_RETRY_DELAY,
+} from "./cache.constants";
+import { CancelledError } from "./query-errors";
+
+/**
+ * Number of retries, or a predicate deciding whether to retry after a failure.
+ */
+export type RetryValue =
+  | number
+  | ((failureCount: number, error: unknown) => boolean);
+
+/**
+ * Returns the delay (in milliseconds) before the next attempt.
+ */
+export type RetryDelayFunction = (
+  failureCount: number,
+  error: unknown
+) => number;
+
+export type RetryCallback = (failureCount: number, error: unknown) => void;
+
+export interface RetryOptions {
+  retry?: RetryValue;
+  retryDelay?: RetryDelayFunction;
+  onRetry?: RetryCallback;
+}
+
+interface RunWithRetryOptions extends RetryOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * Exponential backoff with jitter: the delay doubles after every failure,
+ * capped at DEFAULT_MAX_RETRY_DELAY, and a random half of it is added on top
+ * of the other half so concurrent clients don't retry in lockstep.
+ * @param {number} failureCount - Number of failed attempts so far.
+ * @returns {number} The delay in milliseconds.
+ */
+export const defaultRetryDelay: RetryDelayFunction = (failureCount) => {
+  const delay = Math.min(
+    DEFAULT_RETRY_DELAY * 2 ** (failureCount - 1),
+    DEFAULT_MAX_RETRY_DELAY
+  );
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+const shouldRetry = (
+  retry: RetryValue,
+  failureCount: number,
+  error: unknown
+): boolean =>
+  typeof retry === "function"
+    ? retry(failureCount, error)
+    : failureCount <= retry;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new CancelledError(signal?.reason));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Calls fn until it resolves or the retry policy gives up, rejecting with the last error.
+ * Rejects with a CancelledError as soon as the signal aborts.
+ * @param {() => Promise<T>} fn - The function to call.
+ * @param {RunWithRetryOptions} options - The retry policy and an optional abort signal.
+ * @returns {Promise<T>} The first successful result.
+ */
+export const runWithRetry = async <T>(
+  fn: () => Promise<T>,
+  {
+    retry = 0,
+    retryDelay = defaultRetryDelay,
+    onRetry,
+    signal,
+  }: RunWithRetryOptions
+): Promise<T> => {
+  let failureCount = 0;
+
+  for (;;) {
+    if (signal?.aborted) {
+      throw new CancelledError(signal.reason);
+    }
+
+    try {
+      return await fn();
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new CancelledError(signal.reason);
+      }
+
+      failureCount++;
+
+      if (!shouldRetry(retry, failureCount, error)) {
+        throw error;
+      }
+
+      onRetry?.(failureCount, error);
+      await sleep(retryDelay(failureCount, error), signal);
+    }
+  }
+};
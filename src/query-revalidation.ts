@@ -0,0 +1,85 @@
+import { AnyCacheStore, CacheKey } from "./cache.types";
+import { focusManager } from "./focus-manager";
+import { onlineManager } from "./online-manager";
+
+export type RevalidationTrigger = "focus" | "reconnect";
+
+export interface RevalidationOptions {
+  /** Revalidates the query when the app regains focus, defaults to true */
+  refetchOnWindowFocus?: boolean;
+  /** Revalidates the query when the device comes back online, defaults to true */
+  refetchOnReconnect?: boolean;
+}
+
+/**
+ * A query that is currently observed, e.g. by a mounted hook or a watchQuery handle.
+ */
+export interface ActiveQuery extends RevalidationOptions {
+  cache: AnyCacheStore;
+  queryKey: CacheKey;
+  /** Fetches the query again, without emitting the cached data first */
+  revalidate: () => void;
+}
+
+const activeQueries = new Set<ActiveQuery>();
+let unsubscribeManagers: (() => void) | null = null;
+
+const isEnabled = (query: ActiveQuery, trigger: RevalidationTrigger) =>
+  trigger === "focus"
+    ? query.refetchOnWindowFocus !== false
+    : query.refetchOnReconnect !== false;
+
+/**
+ * Revalidates every active query whose cache entry is stale or missing.
+ * Called on focus and reconnect, it can also be called manually.
+ * @param {RevalidationTrigger} trigger - The signal that fired, matched against the query options.
+ */
+export const revalidateActiveQueries = async (
+  trigger: RevalidationTrigger
+): Promise<void> => {
+  await Promise.all(
+    [...activeQueries]
+      .filter((query) => isEnabled(query, trigger))
+      .map(async (query) => {
+        const entry = await query.cache.get(query.queryKey);
+        if ((!entry.data || entry.stale) && activeQueries.has(query)) {
+          query.revalidate();
+        }
+      })
+  );
+};
+
+/**
+ * Marks a query as active until the returned function is called. The focus and
+ * online managers are listened to while at least one query is active.
+ * @param {ActiveQuery} query - The query and how to revalidate it.
+ * @returns {() => void} A function that marks the query as inactive.
+ */
+export const trackActiveQuery = (query: ActiveQuery): (() => void) => {
+  activeQueries.add(query);
+
+  if (!unsubscribeManagers) {
+    const unsubscribeFocus = focusManager.subscribe((focused) => {
+      if (focused) {
+        revalidateActiveQueries("focus");
+      }
+    });
+    const unsubscribeOnline = onlineManager.subscribe((online) => {
+      if (online) {
+        revalidateActiveQueries("reconnect");
+      }
+    });
+    unsubscribeManagers = () => {
+      unsubscribeFocus();
+      unsubscribeOnline();
+    };
+  }
+
+  return () => {
+    activeQueries.delete(query);
+    if (activeQueries.size === 0) {
+      unsubscribeManagers?.();
+      unsubscribeManagers = null;
+    }
+  };
+};
@@ -0,0 +1,45 @@
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Merges a new value into a previous one, keeping the previous references for
+ * every deep-equal subtree. Only plain objects and arrays are merged, other
+ * values (dates, maps, class instances...) are taken from the new value.
+ * @param {unknown} previous - The previous value.
+ * @param {T} next - The new value.
+ * @returns {T} The previous value if both are deep-equal, otherwise the new value sharing the unchanged subtrees.
+ */
+export const replaceEqualDeep = <T>(previous: unknown, next: T): T => {
+  if (previous === next) {
+    return next;
+  }
+
+  const isArray = Array.isArray(previous) && Array.isArray(next);
+  if (!isArray && !(isPlainObject(previous) && isPlainObject(next))) {
+    return next;
+  }
+
+  const previousValue = previous as Record<string, unknown>;
+  const nextValue = next as Record<string, unknown>;
+  const previousKeys = Object.keys(previousValue);
+  const nextKeys = Object.keys(nextValue);
+  const merged = (isArray ? [] : {}) as Record<string, unknown>;
+  let sharedCount = 0;
+
+  for (const key of nextKeys) {
+    merged[key] = replaceEqualDeep(previousValue[key], nextValue[key]);
+    if (merged[key] === previousValue[key] && key in previousValue) {
+      sharedCount++;
+    }
+  }
+
+  return previousKeys.length === nextKeys.length &&
+    sharedCount === previousKeys.length
+    ? (previous as T)
+    : (merged as T);
+};
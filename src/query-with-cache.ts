@@ -1,20 +1,286 @@
 import isEqual from "fast-deep-equal";
 
-import { CacheKey, CacheStore } from "./cache.types";
+import { stableStringify } from "./cache-key";
+import { AnyCacheStore, CacheKey } from "./cache.types";
+import { onlineManager, waitForOnline } from "./online-manager";
+import { CancelledError, isCancelledError } from "./query-errors";
+import { RetryCallback, RetryOptions, runWithRetry } from "./query-retry";
+import { replaceEqualDeep } from "./query-structural-sharing";
 
-type FetchFunction<T> = () => Promise<T>;
+export interface QueryFunctionContext {
+  signal: AbortSignal;
+}
+
+export type FetchFunction<T> = (context: QueryFunctionContext) => Promise<T>;
 
-interface QueryWithCacheParams<T> {
+/**
+ * "always" fetches regardless of connectivity; "online" pauses fetches while
+ * the online manager reports the device as offline.
+ */
+export type NetworkMode = "online" | "always";
+
+export interface QueryWithCacheParams<T> extends RetryOptions {
   queryKey: CacheKey;
   cacheExpirationTime?: number;
   cacheStoredTime?: number;
-  cache: CacheStore;
+  cache: AnyCacheStore;
   queryFn: FetchFunction<T>;
   onData: (data: T) => void;
   onIsFetching?: (isFetching: boolean) => void;
   onError?: (error: unknown) => void;
+  signal?: AbortSignal;
+  /** Keeps the previous references for the parts of a refetched result that didn't change, defaults to true */
+  structuralSharing?: boolean;
+  /** Fetches even when the cached data is fresh, without emitting it first */
+  force?: boolean;
+  /** Defaults to "always" */
+  networkMode?: NetworkMode;
+  /** Called when a fetch is paused waiting for connectivity, and when it resumes */
+  onIsPaused?: (isPaused: boolean) => void;
 }
 
+interface InFlightQuery {
+  promise: Promise<unknown>;
+  retryListeners: Set<RetryCallback>;
+  controller: AbortController;
+  consumers: number;
+}
+
+/**
+ * Pending fetches per cache store, indexed by the serialized query key.
+ */
+const inFlightQueries = new WeakMap<
+  AnyCacheStore,
+  Map<string, InFlightQuery>
+>();
+
+const getInFlightQueries = (cache: AnyCacheStore) => {
+  let queries = inFlightQueries.get(cache);
+  if (!queries) {
+    queries = new Map();
+    inFlightQueries.set(cache, queries);
+  }
+  return queries;
+};
+
+/**
+ * Subscribes a caller to a pending fetch. A caller with a signal stops waiting
+ * as soon as it aborts; the fetch itself is only aborted once every caller has left.
+ */
+const attachToQuery = <T>(
+  queries: Map<string, InFlightQuery>,
+  hash: string,
+  inFlight: InFlightQuery,
+  signal?: AbortSignal
+): Promise<T> => {
+  inFlight.consumers++;
+
+  if (!signal) {
+    return inFlight.promise as Promise<T>;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      reject(new CancelledError(signal.reason));
+
+      inFlight.consumers--;
+      if (inFlight.consumers === 0) {
+        inFlight.controller.abort(signal.reason);
+        if (queries.get(hash) === inFlight) {
+          queries.delete(hash);
+        }
+      }
+    };
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+
+    signal.addEventListener("abort", onAbort, { once: true });
+    (inFlight.promise as Promise<T>).then(
+      (result) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(result);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+};
+
+/**
+ * Calls queryFn and reports its duration, or its failure, to the cache stats.
+ * Calls aborted by the shared controller aren't counted as errors.
+ */
+const timeQuery = async <T>(
+  cache: AnyCacheStore,
+  queryKey: CacheKey,
+  queryFn: FetchFunction<T>,
+  signal: AbortSignal
+): Promise<T> => {
+  const startTime = Date.now();
+
+  try {
+    const result = await queryFn({ signal });
+    cache.recordEvent?.({
+      type: "fetch",
+      key: queryKey,
+      duration: Date.now() - startTime,
+    });
+    return result;
+  } catch (error) {
+    if (!signal.aborted) {
+      cache.recordEvent?.({
+        type: "fetchError",
+        key: queryKey,
+        duration: Date.now() - startTime,
+        error,
+      });
+    }
+    throw error;
+  }
+};
+
+type FetchAndCacheParams<T> = Omit<
+  QueryWithCacheParams<T>,
+  "onData" | "onIsFetching" | "onError" | "force" | "networkMode" | "onIsPaused"
+> & {
+  previousData: T | null;
+};
+
+/**
+ * Runs the query (with retries) and stores its result, sharing a single
+ * pending fetch between every caller that asks for the same key at the same time.
+ * With structural sharing, the result is merged into the data read by the
+ * caller that started the fetch before being stored, so the callers receive the
+ * previous references for the parts that didn't change.
+ */
+const fetchAndCache = <T>({
+  queryKey,
+  cacheExpirationTime,
+  cacheStoredTime,
+  cache,
+  queryFn,
+  retry,
+  retryDelay,
+  onRetry,
+  signal,
+  structuralSharing = true,
+  previousData,
+}: FetchAndCacheParams<T>): Promise<T> => {
+  const queries = getInFlightQueries(cache);
+  const hash = stableStringify(queryKey);
+
+  const inFlight = queries.get(hash);
+  if (inFlight) {
+    if (onRetry) {
+      inFlight.retryListeners.add(onRetry);
+    }
+    return attachToQuery(queries, hash, inFlight, signal);
+  }
+
+  const retryListeners = new Set<RetryCallback>(onRetry ? [onRetry] : []);
+  const controller = new AbortController();
+
+  const promise = Promise.resolve()
+    .then(() =>
+      runWithRetry(
+        () => timeQuery(cache, queryKey, queryFn, controller.signal),
+        {
+          retry,
+          retryDelay,
+          onRetry: (failureCount, error) => {
+            retryListeners.forEach((listener) => listener(failureCount, error));
+          },
+          signal: controller.signal,
+        }
+      )
+    )
+    .then(async (result) => {
+      if (controller.signal.aborted) {
+        throw new CancelledError(controller.signal.reason);
+      }
+
+      const data = structuralSharing
+        ? replaceEqualDeep(previousData, result)
+        : result;
+
+      await cache.set({
+        key: queryKey,
+        data,
+        cacheTime: cacheStoredTime,
+        staleTime: cacheExpirationTime,
+      });
+      return data;
+    });
+
+  const query: InFlightQuery = {
+    promise,
+    retryListeners,
+    controller,
+    consumers: 0,
+  };
+
+  const release = () => {
+    if (queries.get(hash) === query) {
+      queries.delete(hash);
+    }
+  };
+
+  queries.set(hash, query);
+  promise.then(release, release);
+
+  return attachToQuery(queries, hash, query, signal);
+};
+
+/**
+ * Runs fetchAndCache according to the network mode. In "online" mode the
+ * fetch waits for connectivity before starting, and a fetch that fails while
+ * offline is paused and started again once back online instead of failing.
+ */
+const fetchWhenOnline = async <T>(
+  params: FetchAndCacheParams<T>,
+  networkMode: NetworkMode,
+  onIsPaused?: (isPaused: boolean) => void
+): Promise<T> => {
+  for (;;) {
+    if (networkMode === "online" && !onlineManager.isOnline()) {
+      onIsPaused?.(true);
+      try {
+        await waitForOnline(params.signal);
+      } finally {
+        onIsPaused?.(false);
+      }
+    }
+
+    try {
+      return await fetchAndCache(params);
+    } catch (error) {
+      if (
+        networkMode !== "online" ||
+        onlineManager.isOnline() ||
+        isCancelledError(error)
+      ) {
+        throw error;
+      }
+    }
+  }
+};
+
+/**
+ * Checks if a fetch is pending for a key on a cache store.
+ * @param {AnyCacheStore} cache - The cache store.
+ * @param {CacheKey} queryKey - The query key.
+ * @returns {boolean} True if a queryFn call for the key hasn't settled yet.
+ */
+export const isQueryFetching = (
+  cache: AnyCacheStore,
+  queryKey: CacheKey
+): boolean => getInFlightQueries(cache).has(stableStringify(queryKey));
+
 export const queryWithCache = async <T>({
   queryKey,
   cacheExpirationTime,
@@ -24,44 +290,137 @@ export const queryWithCache = async <T>({
   onData,
   onIsFetching,
   onError,
+  retry,
+  retryDelay,
+  onRetry,
+  signal,
+  structuralSharing,
+  force = false,
+  networkMode = "always",
+  onIsPaused,
 }: QueryWithCacheParams<T>) => {
-  const cacheEntry = cache.get<T>(queryKey);
-  const shouldCallIsFetching = !cacheEntry.data && !!onIsFetching;
+  let shouldCallIsFetching = false;
 
-  if (cacheEntry.data) {
-    onData(cacheEntry.data);
+  // The read is in the try as well, so a failing async store reaches onError like a failed fetch
+  try {
+    const cacheEntry = await cache.get<T>(queryKey);
+    shouldCallIsFetching = !cacheEntry.data && !!onIsFetching;
 
-    if (!cacheEntry.stale) {
-      return;
+    if (cacheEntry.data && !force) {
+      onData(cacheEntry.data);
+
+      if (!cacheEntry.stale) {
+        return;
+      }
     }
-  }
 
-  if (shouldCallIsFetching) {
-    onIsFetching(true);
-  }
+    if (shouldCallIsFetching) {
+      onIsFetching?.(true);
+    }
 
-  try {
-    const result = await queryFn();
+    const result = await fetchWhenOnline(
+      {
+        queryKey,
+        cacheExpirationTime,
+        cacheStoredTime,
+        cache,
+        queryFn,
+        retry,
+        retryDelay,
+        onRetry,
+        signal,
+        structuralSharing,
+        previousData: cacheEntry.data,
+      },
+      networkMode,
+      onIsPaused
+    );
 
     if (!isEqual(result, cacheEntry.data)) {
       onData(result);
     }
-
-    cache.set({
-      key: queryKey,
-      data: result,
-      cacheTime: cacheStoredTime,
-      staleTime: cacheExpirationTime,
-    });
   } catch (error) {
     if (onError) {
       onError(error);
     } else {
       throw error;
     }
+  } finally {
+    if (shouldCallIsFetching) {
+      onIsFetching?.(false);
+    }
+  }
+};
+
+export type FetchWithCacheParams<T> = Omit<
+  QueryWithCacheParams<T>,
+  "onData" | "onError"
+>;
+
+export interface EnsureQueryDataParams<T> extends FetchWithCacheParams<T> {
+  /** Called when the background revalidation fails */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Promise-based queryWithCache: resolves with the cached data when it is
+ * fresh, otherwise with the result of a fetch, and rejects when the cache read
+ * or the fetch fails.
+ * @param {FetchWithCacheParams<T>} params - The query parameters.
+ * @returns {Promise<T>} The query data.
+ */
+export const fetchWithCache = async <T>({
+  onIsFetching,
+  force = false,
+  networkMode = "always",
+  onIsPaused,
+  ...params
+}: FetchWithCacheParams<T>): Promise<T> => {
+  const cacheEntry = await params.cache.get<T>(params.queryKey);
+
+  if (cacheEntry.data && !cacheEntry.stale && !force) {
+    return cacheEntry.data;
+  }
+
+  const shouldCallIsFetching = !cacheEntry.data && !!onIsFetching;
+  if (shouldCallIsFetching) {
+    onIsFetching(true);
+  }
+
+  try {
+    return await fetchWhenOnline(
+      { ...params, previousData: cacheEntry.data },
+      networkMode,
+      onIsPaused
+    );
   } finally {
     if (shouldCallIsFetching) {
       onIsFetching(false);
     }
   }
 };
+
+/**
+ * Resolves with the cached data right away, even when it is stale, and
+ * revalidates stale data in the background; fetches only on a miss. Background
+ * failures are passed to onError, a failed cache read or a failed fetch on a
+ * miss rejects.
+ * @param {EnsureQueryDataParams<T>} params - The query parameters.
+ * @returns {Promise<T>} The query data.
+ */
+export const ensureQueryData = async <T>({
+  onError,
+  ...params
+}: EnsureQueryDataParams<T>): Promise<T> => {
+  const { data, stale } = await params.cache.get<T>(params.queryKey);
+
+  if (!data) {
+    return fetchWithCache(params);
+  }
+
+  if (stale) {
+    fetchWithCache(params).catch((error) => onError?.(error));
+  }
+
+  return data;
+};
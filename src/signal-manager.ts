@@ -0,0 +1,78 @@
+export type SignalListener = (value: boolean) => void;
+
+/**
+ * Boolean environment signal (focus, connectivity...) and its change events.
+ */
+export interface SignalSource {
+  read(): boolean;
+  subscribe(listener: SignalListener): () => void;
+}
+
+/**
+ * Tracks an environment signal from a replaceable source, with a manual
+ * override. The source is only listened to while the manager has listeners,
+ * and listeners are only called when the value actually changes.
+ */
+export class SignalManager {
+  private listeners = new Set<SignalListener>();
+  private override: boolean | undefined;
+  private current: boolean | undefined;
+  private detachSource: (() => void) | null = null;
+
+  constructor(private source: SignalSource) {}
+
+  /**
+   * Subscribes to the changes of the signal.
+   * @param {SignalListener} listener - Called with the new value.
+   * @returns {() => void} A function that removes the listener.
+   */
+  subscribe(listener: SignalListener): () => void {
+    this.listeners.add(listener);
+    if (!this.detachSource) {
+      this.attachSource();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.detachSource?.();
+        this.detachSource = null;
+      }
+    };
+  }
+
+  protected read(): boolean {
+    return this.override ?? this.source.read();
+  }
+
+  protected setOverride(value: boolean | undefined): void {
+    this.override = value;
+    this.update();
+  }
+
+  protected setSource(source: SignalSource): void {
+    this.detachSource?.();
+    this.detachSource = null;
+    this.source = source;
+
+    if (this.listeners.size > 0) {
+      this.detachSource = this.source.subscribe(() => this.update());
+      this.update();
+    }
+  }
+
+  private attachSource(): void {
+    this.current = this.read();
+    this.detachSource = this.source.subscribe(() => this.update());
+  }
+
+  private update(): void {
+    const value = this.read();
+    if (value === this.current) {
+      return;
+    }
+
+    this.current = value;
+    [...this.listeners].forEach((listener) => listener(value));
+  }
+}
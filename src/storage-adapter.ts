@@ -0,0 +1,71 @@
+/**
+ * Minimal string key-value storage used by CacheStoreKeyValue.
+ */
+export interface StorageAdapter {
+  getString(key: string): string | undefined;
+  set(key: string, value: string): void;
+  delete(key: string): void;
+  getAllKeys(): string[];
+}
+
+/**
+ * In-process storage backed by a Map, for tests and non-persistent setups.
+ */
+export class MapStorageAdapter implements StorageAdapter {
+  private map = new Map<string, string>();
+
+  getString(key: string): string | undefined {
+    return this.map.get(key);
+  }
+
+  set(key: string, value: string): void {
+    this.map.set(key, value);
+  }
+
+  delete(key: string): void {
+    this.map.delete(key);
+  }
+
+  getAllKeys(): string[] {
+    return [...this.map.keys()];
+  }
+}
+
+/**
+ * Web Storage (localStorage or sessionStorage) adapter. The storage is shared
+ * with the rest of the page, so keys are namespaced with a prefix and only
+ * prefixed keys are listed.
+ */
+export class WebStorageAdapter implements StorageAdapter {
+  /**
+   * @param {Storage} storage - The Web Storage to use, defaults to localStorage.
+   * @param {string} prefix - Prefix added to every key.
+   */
+  constructor(
+    private storage: Storage = localStorage,
+    private prefix = "query-with-cache:"
+  ) {}
+
+  getString(key: string): string | undefined {
+    return this.storage.getItem(this.prefix + key) ?? undefined;
+  }
+
+  set(key: string, value: string): void {
+    this.storage.setItem(this.prefix + key, value);
+  }
+
+  delete(key: string): void {
+    this.storage.removeItem(this.prefix + key);
+  }
+
+  getAllKeys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key?.startsWith(this.prefix)) {
+        keys.push(key.slice(this.prefix.length));
+      }
+    }
+    return keys;
+  }
+}
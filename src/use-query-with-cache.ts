@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { stableStringify } from "./cache-key";
+import { CacheStore } from "./cache.types";
+import { isCancelledError } from "./query-errors";
+import { RevalidationOptions, trackActiveQuery } from "./query-revalidation";
+import { QueryWithCacheParams, queryWithCache } from "./query-with-cache";
+
+/**
+ * The hook reads the cache synchronously while rendering, so it takes a synchronous store.
+ */
+export interface UseQueryWithCacheParams<T>
+  extends Omit<
+      QueryWithCacheParams<T>,
+      | "cache"
+      | "onData"
+      | "onIsFetching"
+      | "onIsPaused"
+      | "onError"
+      | "signal"
+      | "force"
+    >,
+    RevalidationOptions {
+  cache: CacheStore;
+}
+
+export interface UseQueryWithCacheResult<T> {
+  data: T | null;
+  error: unknown;
+  isFetching: boolean;
+  /** True while the fetch waits for connectivity, see networkMode */
+  isPaused: boolean;
+  isStale: boolean;
+  refetch: () => Promise<void>;
+}
+
+interface QueryState<T> {
+  data: T | null;
+  error: unknown;
+  isFetching: boolean;
+  isPaused: boolean;
+  isStale: boolean;
+}
+
+/**
+ * React binding for queryWithCache. Fetches whenever the serialized key changes,
+ * ignores results that arrive after unmount and re-renders when another writer
+ * updates the same key in the cache. While mounted, the query is revalidated
+ * when the app regains focus or the device comes back online and its data is stale.
+ * @param {UseQueryWithCacheParams<T>} params - The query parameters.
+ * @returns {UseQueryWithCacheResult<T>} The query state and a refetch function.
+ */
+export const useQueryWithCache = <T>(
+  params: UseQueryWithCacheParams<T>
+): UseQueryWithCacheResult<T> => {
+  const { queryKey, cache } = params;
+  const hash = stableStringify(queryKey);
+
+  const paramsRef = useRef(params);
+  paramsRef.current = params;
+
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const [state, setState] = useState<QueryState<T>>(() => {
+    const entry = cache.get<T>(queryKey);
+    return {
+      data: entry.data,
+      error: null,
+      isFetching: false,
+      isPaused: false,
+      isStale: entry.stale,
+    };
+  });
+
+  const update = useCallback(
+    (signal: AbortSignal, changes: Partial<QueryState<T>>) => {
+      if (signal.aborted) {
+        return;
+      }
+      setState((current) => ({ ...current, ...changes }));
+    },
+    []
+  );
+
+  const run = useCallback(
+    async (force: boolean) => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      const { signal } = controller;
+      const current = paramsRef.current;
+
+      await queryWithCache<T>({
+        ...current,
+        force,
+        signal,
+        onData: (data) => {
+          update(signal, {
+            data,
+            error: null,
+            isStale: current.cache.get<T>(current.queryKey).stale,
+          });
+        },
+        onIsFetching: (isFetching) => {
+          update(signal, { isFetching });
+        },
+        onIsPaused: (isPaused) => {
+          update(signal, { isPaused });
+        },
+        onError: (error) => {
+          if (!isCancelledError(error)) {
+            update(signal, { error });
+          }
+        },
+      });
+    },
+    [update]
+  );
+
+  const refetch = useCallback(() => run(true), [run]);
+
+  useEffect(() => {
+    const entry = cache.get<T>(queryKey);
+    setState({
+      data: entry.data,
+      error: null,
+      isFetching: false,
+      isPaused: false,
+      isStale: entry.stale,
+    });
+
+    const unsubscribe = cache.subscribe(queryKey, (event) => {
+      if (event.type === "set") {
+        const { data, stale } = cache.get<T>(queryKey);
+        setState((current) =>
+          current.data === data && current.isStale === stale
+            ? current
+            : { ...current, data, isStale: stale }
+        );
+      } else if (event.type === "invalidate") {
+        run(false);
+      }
+    });
+
+    const { refetchOnWindowFocus, refetchOnReconnect } = paramsRef.current;
+    const untrack = trackActiveQuery({
+      cache,
+      queryKey,
+      refetchOnWindowFocus,
+      refetchOnReconnect,
+      revalidate: () => {
+        run(true);
+      },
+    });
+
+    run(false);
+
+    return () => {
+      unsubscribe();
+      untrack();
+      controllerRef.current?.abort();
+    };
+    // The serialized key stands in for queryKey, so a new array with the same segments doesn't refetch
+  }, [cache, hash, run]);
+
+  return { ...state, refetch };
+};
@@ -0,0 +1,71 @@
+export type VisibilityListener = (isVisible: boolean) => void;
+
+/**
+ * Tells whether the app is in the foreground, and when that changes.
+ */
+export interface VisibilitySource {
+  isVisible(): boolean;
+  subscribe(listener: VisibilityListener): () => void;
+}
+
+/**
+ * Visibility source for environments without a background state, e.g. Node.
+ */
+export const alwaysVisibleSource: VisibilitySource = {
+  isVisible: () => true,
+  subscribe: () => () => undefined,
+};
+
+/**
+ * Visibility source backed by the Page Visibility API.
+ * @param {Document} doc - The document to watch, defaults to the global document.
+ * @returns {VisibilitySource} The visibility source.
+ */
+export const createDocumentVisibilitySource = (
+  doc: Document = document
+): VisibilitySource => ({
+  isVisible: () => doc.visibilityState !== "hidden",
+  subscribe: (listener) => {
+    const onChange = () => listener(doc.visibilityState !== "hidden");
+    doc.addEventListener("visibilitychange", onChange);
+    return () => doc.removeEventListener("visibilitychange", onChange);
+  },
+});
+
+/**
+ * Returns the visibility source of the current environment: the document in
+ * browsers, otherwise a source that is always visible.
+ * @returns {VisibilitySource} The visibility source.
+ */
+export const getDefaultVisibilitySource = (): VisibilitySource =>
+  typeof document !== "undefined"
+    ? createDocumentVisibilitySource(document)
+    : alwaysVisibleSource;
+
+/**
+ * Minimal shape of React Native's AppState module.
+ */
+export interface AppStateLike {
+  currentState: string | null;
+  addEventListener(
+    type: "change",
+    listener: (state: string) => void
+  ): { remove(): void };
+}
+
+/**
+ * Visibility source backed by React Native's AppState: the app is visible while it is "active".
+ * @param {AppStateLike} appState - The AppState module.
+ * @returns {VisibilitySource} The visibility source.
+ */
+export const createAppStateVisibilitySource = (
+  appState: AppStateLike
+): VisibilitySource => ({
+  isVisible: () => appState.currentState === "active",
+  subscribe: (listener) => {
+    const subscription = appState.addEventListener("change", (state) =>
+      listener(state === "active")
+    );
+    return () => subscription.remove();
+  },
+});
@@ -0,0 +1,114 @@
+import { focusManager } from "./focus-manager";
+import { isCancelledError } from "./query-errors";
+import { RevalidationOptions, trackActiveQuery } from "./query-revalidation";
+import {
+  QueryWithCacheParams,
+  isQueryFetching,
+  queryWithCache,
+} from "./query-with-cache";
+import { VisibilitySource } from "./visibility-source";
+
+export interface WatchQueryParams<T>
+  extends Omit<QueryWithCacheParams<T>, "signal" | "force">,
+    RevalidationOptions {
+  /** Time between two refetches, in milliseconds */
+  refetchInterval: number;
+  /** Keeps refetching while the app is in the background, defaults to false */
+  refetchIntervalInBackground?: boolean;
+  /** Source of the foreground/background state, defaults to the focus manager */
+  visibilitySource?: VisibilitySource;
+}
+
+export interface WatchQueryHandle {
+  /** Fetches right away, unless a fetch is already in flight */
+  refetch: () => Promise<void>;
+  /** Stops polling and cancels the pending fetch */
+  stop: () => void;
+}
+
+/**
+ * Polls a query: the first emission comes from the cache (fetching only when
+ * it is missing or stale), then the query is refetched every refetchInterval.
+ * A tick is skipped while a fetch for the key is in flight, and ticks are
+ * paused in the background unless refetchIntervalInBackground is set; a tick
+ * missed in the background runs as soon as the app is visible again. Like a
+ * mounted hook, the query is active: it is revalidated on focus and reconnect
+ * when its data is stale.
+ * Errors are passed to onError, polling continues after them.
+ * @param {WatchQueryParams<T>} params - The query parameters and polling options.
+ * @returns {WatchQueryHandle} A handle to refetch or stop polling.
+ */
+export const watchQuery = <T>({
+  refetchInterval,
+  refetchIntervalInBackground = false,
+  visibilitySource = focusManager,
+  refetchOnWindowFocus,
+  refetchOnReconnect,
+  onError,
+  ...params
+}: WatchQueryParams<T>): WatchQueryHandle => {
+  const controller = new AbortController();
+  let pending: Promise<void> | null = null;
+  let missedTick = false;
+
+  const run = (force: boolean): Promise<void> => {
+    if (controller.signal.aborted) {
+      return Promise.resolve();
+    }
+    if (pending || isQueryFetching(params.cache, params.queryKey)) {
+      return pending ?? Promise.resolve();
+    }
+
+    pending = queryWithCache<T>({
+      ...params,
+      force,
+      signal: controller.signal,
+      onError: (error) => {
+        if (!isCancelledError(error)) {
+          onError?.(error);
+        }
+      },
+    }).finally(() => {
+      pending = null;
+    });
+
+    return pending;
+  };
+
+  const tick = () => {
+    if (!refetchIntervalInBackground && !visibilitySource.isVisible()) {
+      missedTick = true;
+      return;
+    }
+    run(true);
+  };
+
+  const unsubscribe = visibilitySource.subscribe((isVisible) => {
+    if (isVisible && missedTick) {
+      missedTick = false;
+      run(true);
+    }
+  });
+  const untrack = trackActiveQuery({
+    cache: params.cache,
+    queryKey: params.queryKey,
+    refetchOnWindowFocus,
+    refetchOnReconnect,
+    revalidate: () => {
+      run(true);
+    },
+  });
+  const intervalId = setInterval(tick, refetchInterval);
+
+  run(false);
+
+  return {
+    refetch: () => run(true),
+    stop: () => {
+      clearInterval(intervalId);
+      unsubscribe();
+      untrack();
+      controller.abort();
+    },
+  };
+};
@@ -0,0 +1,63 @@
+import { hashKey, isKeyPrefix, stableStringify } from "../src/cache-key";
+import { WILDCARD } from "../src/cache.constants";
+
+describe("cache keys", () => {
+  describe("stableStringify", () => {
+    it("should ignore property order", () => {
+      expect(stableStringify({ b: 1, a: { d: 2, c: 3 } })).toBe(
+        stableStringify({ a: { c: 3, d: 2 }, b: 1 })
+      );
+    });
+
+    it("should keep array order", () => {
+      expect(stableStringify([1, 2])).not.toBe(stableStringify([2, 1]));
+    });
+  });
+
+  describe("hashKey", () => {
+    it("should keep string and number segments readable", () => {
+      expect(hashKey(["users", 1, "posts"])).toBe("users:1:posts");
+    });
+
+    it("should hash object segments by content", () => {
+      expect(hashKey(["todos", { status: "active", page: 1 }])).toBe(
+        hashKey(["todos", { page: 1, status: "active" }])
+      );
+      expect(hashKey(["todos", { status: "active" }])).not.toBe(
+        hashKey(["todos", { status: "done" }])
+      );
+    });
+
+    it("should never contain the separator inside a segment", () => {
+      expect(hashKey([{ a: "b:c" }]).split(":")).toHaveLength(1);
+    });
+  });
+
+  describe("isKeyPrefix", () => {
+    it("should match the key itself and its descendants", () => {
+      expect(isKeyPrefix(["todos"], ["todos"])).toBe(true);
+      expect(isKeyPrefix(["todos"], ["todos", { status: "active" }])).toBe(
+        true
+      );
+      expect(isKeyPrefix(["todos", 1], ["todos"])).toBe(false);
+    });
+
+    it("should compare object segments by content", () => {
+      expect(
+        isKeyPrefix(
+          ["todos", { status: "active", page: 1 }],
+          ["todos", { page: 1, status: "active" }, "items"]
+        )
+      ).toBe(true);
+    });
+
+    it("should match any segment with a wildcard", () => {
+      expect(
+        isKeyPrefix(["users", WILDCARD, "posts"], ["users", 1, "posts"])
+      ).toBe(true);
+      expect(
+        isKeyPrefix(["users", WILDCARD, "posts"], ["users", 1, "profile"])
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  createConsoleLogger,
+  createPinoLogger,
+  createStoreLogger,
+  Logger,
+} from "../src/cache-logger";
+
+const createMockSink = () => ({
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+});
+
+describe("Loggers", () => {
+  describe("createConsoleLogger", () => {
+    it("should forward the event as the message and the fields as an object", () => {
+      const sink = createMockSink();
+
+      createConsoleLogger(sink).warn({
+        event: "invalidKey",
+        key: [],
+        extra: 1,
+      });
+
+      expect(sink.warn).toHaveBeenCalledWith("[query-with-cache] invalidKey", {
+        key: [],
+        extra: 1,
+      });
+    });
+  });
+
+  describe("createPinoLogger", () => {
+    it("should forward the fields first and the event as the message", () => {
+      const sink = createMockSink();
+
+      createPinoLogger(sink).error({ event: "gcFailed", error: "boom" });
+
+      expect(sink.error).toHaveBeenCalledWith(
+        { event: "gcFailed", error: "boom" },
+        "gcFailed"
+      );
+    });
+  });
+
+  describe("createStoreLogger", () => {
+    let logger: jest.Mocked<Logger>;
+
+    beforeEach(() => {
+      logger = createMockSink();
+    });
+
+    const logAll = (storeLogger: Logger) => {
+      storeLogger.debug({ event: "debug" });
+      storeLogger.info({ event: "info" });
+      storeLogger.warn({ event: "warn" });
+      storeLogger.error({ event: "error" });
+    };
+
+    it("should log warnings and errors by default", () => {
+      logAll(createStoreLogger({ logger }));
+
+      expect(logger.debug).not.toHaveBeenCalled();
+      expect(logger.info).not.toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalledWith({ event: "warn" });
+      expect(logger.error).toHaveBeenCalledWith({ event: "error" });
+    });
+
+    it("should log everything with debug", () => {
+      logAll(createStoreLogger({ logger, debug: true }));
+
+      expect(logger.debug).toHaveBeenCalledWith({ event: "debug" });
+      expect(logger.info).toHaveBeenCalledWith({ event: "info" });
+    });
+
+    it("should prefer the log level over debug", () => {
+      logAll(createStoreLogger({ logger, debug: true, logLevel: "info" }));
+
+      expect(logger.debug).not.toHaveBeenCalled();
+      expect(logger.info).toHaveBeenCalled();
+    });
+
+    it("should log nothing when silent", () => {
+      logAll(createStoreLogger({ logger, logLevel: "silent" }));
+
+      expect(logger.error).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { applySchema, findSchema } from "../src/cache-schema";
+import { CacheSchema, StoredCacheEntry } from "../src/cache.types";
+
+describe("Cache Schemas", () => {
+  const entry = (
+    data: unknown,
+    schemaVersion?: number
+  ): StoredCacheEntry<unknown> => ({
+    data,
+    timestamp: 1000,
+    staleTime: 100,
+    cacheTime: 200,
+    schemaVersion,
+  });
+
+  describe("findSchema", () => {
+    const schemas: CacheSchema[] = [
+      { queryKey: ["users"], schemaVersion: 1 },
+      { queryKey: ["users", { role: "admin" }], schemaVersion: 2 },
+    ];
+
+    it("should find the schema of the most specific prefix", () => {
+      expect(findSchema(schemas, ["users", { role: "admin" }, 1])).toBe(
+        schemas[1]
+      );
+      expect(findSchema(schemas, ["users", 1])).toBe(schemas[0]);
+    });
+
+    it("should return undefined without a matching prefix", () => {
+      expect(findSchema(schemas, ["todos"])).toBeUndefined();
+      expect(findSchema(undefined, ["users"])).toBeUndefined();
+    });
+  });
+
+  describe("applySchema", () => {
+    it("should keep entries without a schema", () => {
+      const stored = entry("data");
+
+      expect(applySchema(undefined, stored)).toBe(stored);
+    });
+
+    it("should keep valid entries of the current version", () => {
+      const stored = entry({ name: "Ada" }, 2);
+      const schema: CacheSchema = {
+        queryKey: ["users"],
+        schemaVersion: 2,
+        validate: (data) => typeof data === "object",
+      };
+
+      expect(applySchema(schema, stored)).toBe(stored);
+    });
+
+    it("should drop entries of another version without migrate", () => {
+      const schema: CacheSchema = { queryKey: ["users"], schemaVersion: 2 };
+
+      expect(applySchema(schema, entry("Ada", 1))).toBeNull();
+      expect(applySchema(schema, entry("Ada"))).toBeNull();
+    });
+
+    it("should drop invalid entries without migrate", () => {
+      const schema: CacheSchema = {
+        queryKey: ["users"],
+        schemaVersion: 2,
+        validate: (data) => typeof data === "object",
+      };
+
+      expect(applySchema(schema, entry("Ada", 2))).toBeNull();
+    });
+
+    it("should migrate entries of another version", () => {
+      const migrate = jest.fn((name: string) => ({ name }));
+      const schema: CacheSchema = {
+        queryKey: ["users"],
+        schemaVersion: 2,
+        migrate,
+      };
+
+      expect(applySchema(schema, entry("Ada", 1))).toEqual({
+        ...entry({ name: "Ada" }),
+        schemaVersion: 2,
+      });
+      expect(migrate).toHaveBeenCalledWith("Ada", 1);
+    });
+
+    it("should drop migrated data failing validation", () => {
+      const schema: CacheSchema = {
+        queryKey: ["users"],
+        schemaVersion: 2,
+        validate: (data) => typeof data === "object",
+        migrate: (name) => name,
+      };
+
+      expect(applySchema(schema, entry("Ada", 1))).toBeNull();
+    });
+
+    it("should drop entries whose migration throws", () => {
+      const schema: CacheSchema = {
+        queryKey: ["users"],
+        schemaVersion: 2,
+        migrate: () => {
+          throw new Error("Unknown version");
+        },
+      };
+
+      expect(applySchema(schema, entry("Ada", 1))).toBeNull();
+    });
+  });
+});
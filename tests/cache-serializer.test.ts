@@ -0,0 +1,54 @@
+import { defaultSerializer } from "../src/cache-serializer";
+
+describe("defaultSerializer", () => {
+  const roundTrip = <T>(value: T): T =>
+    defaultSerializer.deserialize<T>(defaultSerializer.serialize(value));
+
+  it("should round-trip plain JSON values", () => {
+    const value = { a: 1, b: ["x", null, true], c: { d: "e" } };
+
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it("should round-trip dates", () => {
+    const value = { createdAt: new Date("2024-01-02T03:04:05.000Z") };
+
+    const result = roundTrip(value);
+
+    expect(result.createdAt).toBeInstanceOf(Date);
+    expect(result.createdAt.toISOString()).toBe("2024-01-02T03:04:05.000Z");
+  });
+
+  it("should round-trip maps and sets", () => {
+    const value = {
+      map: new Map<string, unknown>([
+        ["a", 1],
+        ["b", new Set([1, 2])],
+      ]),
+      set: new Set(["x", "y"]),
+    };
+
+    const result = roundTrip(value);
+
+    expect(result.map).toBeInstanceOf(Map);
+    expect(result.map.get("a")).toBe(1);
+    expect(result.map.get("b")).toEqual(new Set([1, 2]));
+    expect(result.set).toEqual(new Set(["x", "y"]));
+  });
+
+  it("should round-trip bigints", () => {
+    expect(roundTrip({ id: BigInt("9007199254740993") })).toEqual({
+      id: BigInt("9007199254740993"),
+    });
+  });
+
+  it("should round-trip nested built-in types", () => {
+    const value = [new Map([[new Date(0), [BigInt(1)]]])];
+
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it("should throw on invalid payloads", () => {
+    expect(() => defaultSerializer.deserialize("{not json")).toThrow();
+  });
+});
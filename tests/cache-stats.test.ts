@@ -0,0 +1,103 @@
+import { CacheStats } from "../src/cache-stats";
+
+describe("CacheStats", () => {
+  it("should count events in total and per key prefix", () => {
+    const stats = new CacheStats();
+
+    stats.record({ type: "hit", key: ["users", 1], stale: false });
+    stats.record({ type: "hit", key: ["users", 2], stale: true });
+    stats.record({ type: "miss", key: ["todos"] });
+    stats.record({ type: "set", key: ["todos"] });
+    stats.record({ type: "invalidate", key: ["users"] });
+    stats.record({ type: "gc", key: ["todos"] });
+
+    expect(stats.get().total).toEqual({
+      hits: 2,
+      misses: 1,
+      staleHits: 1,
+      sets: 1,
+      invalidations: 1,
+      gcEvictions: 1,
+      fetches: 0,
+      fetchErrors: 0,
+      fetchDuration: 0,
+    });
+    expect(stats.get().byPrefix.users).toMatchObject({
+      hits: 2,
+      staleHits: 1,
+      invalidations: 1,
+    });
+    expect(stats.get().byPrefix.todos).toMatchObject({
+      misses: 1,
+      sets: 1,
+      gcEvictions: 1,
+    });
+  });
+
+  it("should count fetches and their durations", () => {
+    const stats = new CacheStats();
+
+    stats.record({ type: "fetch", key: ["users"], duration: 100 });
+    stats.record({
+      type: "fetchError",
+      key: ["users"],
+      duration: 50,
+      error: new Error("Network error"),
+    });
+
+    expect(stats.get().total).toMatchObject({
+      fetches: 2,
+      fetchErrors: 1,
+      fetchDuration: 150,
+    });
+  });
+
+  it("should group prefixes by the configured length", () => {
+    const stats = new CacheStats({ statsPrefixLength: 2 });
+
+    stats.record({ type: "miss", key: ["users", 1, "posts"] });
+    stats.record({ type: "miss", key: ["users", { role: "admin" }] });
+
+    expect(Object.keys(stats.get().byPrefix)).toEqual([
+      "users:1",
+      "users:%7B%22role%22%3A%22admin%22%7D",
+    ]);
+  });
+
+  it("should only count events of the empty key in the total", () => {
+    const stats = new CacheStats();
+
+    stats.record({ type: "invalidate", key: [] });
+
+    expect(stats.get().total.invalidations).toBe(1);
+    expect(stats.get().byPrefix).toEqual({});
+  });
+
+  it("should forward events to onEvent", () => {
+    const onEvent = jest.fn();
+    const stats = new CacheStats({ onEvent });
+
+    stats.record({ type: "miss", key: ["users"] });
+
+    expect(onEvent).toHaveBeenCalledWith({ type: "miss", key: ["users"] });
+  });
+
+  it("should reset the counters", () => {
+    const stats = new CacheStats();
+    stats.record({ type: "miss", key: ["users"] });
+
+    stats.reset();
+
+    expect(stats.get().total.misses).toBe(0);
+    expect(stats.get().byPrefix).toEqual({});
+  });
+
+  it("should return copies of the counters", () => {
+    const stats = new CacheStats();
+    const snapshot = stats.get();
+
+    stats.record({ type: "miss", key: ["users"] });
+
+    expect(snapshot.total.misses).toBe(0);
+  });
+});
@@ -0,0 +1,260 @@
+import { mkdtemp, readdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { CacheStoreFileSystem } from "../src/cache-store-file-system";
+import { DEFAULT_STALE_TIME, WILDCARD } from "../src/cache.constants";
+
+describe("CacheStoreFileSystem", () => {
+  let directory: string;
+  let cache: CacheStoreFileSystem;
+  let now: number;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "query-with-cache-"));
+    now = 1000000;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    cache = new CacheStoreFileSystem({ directory });
+  });
+
+  afterEach(async () => {
+    cache.stopGarbageCollector();
+    jest.restoreAllMocks();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describe("Basic Cache Operations", () => {
+    it("should store and retrieve data", async () => {
+      await cache.set({ key: ["test"], data: { test: "value" } });
+
+      expect(await cache.get(["test"])).toEqual({
+        data: { test: "value" },
+        stale: false,
+      });
+    });
+
+    it("should return null for non-existent keys", async () => {
+      expect(await cache.get(["nonexistent"])).toEqual({
+        data: null,
+        stale: false,
+      });
+    });
+
+    it("should return the metadata of an entry", async () => {
+      await cache.set({
+        key: ["test"],
+        data: "value",
+        staleTime: 10,
+        cacheTime: 20,
+      });
+
+      expect(await cache.getMetadata(["test"])).toEqual({
+        timestamp: now,
+        staleTime: 10,
+        cacheTime: 20,
+      });
+      expect(await cache.getMetadata(["nonexistent"])).toBeNull();
+    });
+
+    it("should persist entries across instances", async () => {
+      await cache.set({ key: ["users", 1], data: "user" });
+
+      const other = new CacheStoreFileSystem({ directory });
+      expect((await other.get(["users", 1])).data).toBe("user");
+      other.stopGarbageCollector();
+    });
+
+    it("should handle keys with unsafe characters", async () => {
+      await cache.set({ key: ["..", "a/b", { q: "c:d" }], data: "safe" });
+
+      expect((await cache.get(["..", "a/b", { q: "c:d" }])).data).toBe("safe");
+      expect(await readdir(directory)).toEqual(["%2E%2E"]);
+    });
+
+    it("should store large object segments under a fixed-length name", async () => {
+      const filters = {
+        status: "active",
+        search: "x".repeat(300),
+        page: 12,
+        sort: "createdAt",
+        order: "desc",
+        tags: ["work", "home", "urgent"],
+        owner: { id: 42, name: "Ada Lovelace" },
+      };
+      await cache.set({ key: ["todos", filters], data: "filtered" });
+
+      expect((await cache.get(["todos", filters])).data).toBe("filtered");
+      const [name] = await readdir(join(directory, "todos"));
+      expect(name).toMatch(/^#[0-9a-f]{64}$/);
+      expect((await cache.dehydrate()).entries[0].key).toEqual([
+        "todos",
+        filters,
+      ]);
+    });
+
+    it("should map digest directories back to their segment on wildcard invalidation", async () => {
+      const segment = { search: "x".repeat(300) };
+      const listener = jest.fn();
+      await cache.set({ key: ["todos", segment, "page"], data: "page" });
+      cache.subscribe(["todos"], listener);
+
+      await cache.invalidate(["todos", WILDCARD]);
+
+      expect((await cache.get(["todos", segment, "page"])).data).toBeNull();
+      expect(listener).toHaveBeenCalledWith({
+        type: "invalidate",
+        key: ["todos", segment],
+      });
+    });
+
+    it("should not leave temporary files behind", async () => {
+      await cache.set({ key: ["test"], data: "value" });
+      await cache.set({ key: ["test"], data: "updated" });
+
+      expect(await readdir(join(directory, "test"))).toEqual(["entry.json"]);
+    });
+
+    it("should mark data as stale after staleTime", async () => {
+      await cache.set({ key: ["test"], data: "value" });
+
+      now += DEFAULT_STALE_TIME + 1;
+
+      expect(await cache.get(["test"])).toEqual({ data: "value", stale: true });
+    });
+  });
+
+  describe("Cache Invalidation", () => {
+    beforeEach(async () => {
+      await cache.set({ key: ["users"], data: "users" });
+      await cache.set({ key: ["users", 1, "posts"], data: "posts 1" });
+      await cache.set({ key: ["users", 2, "posts"], data: "posts 2" });
+      await cache.set({ key: ["todos"], data: "todos" });
+    });
+
+    it("should invalidate a key and its whole subtree", async () => {
+      await cache.invalidate(["users"]);
+
+      expect((await cache.get(["users"])).data).toBeNull();
+      expect((await cache.get(["users", 1, "posts"])).data).toBeNull();
+      expect((await cache.get(["todos"])).data).toBe("todos");
+    });
+
+    it("should invalidate keys matching a wildcard", async () => {
+      await cache.invalidate(["users", WILDCARD, "posts"]);
+
+      expect((await cache.get(["users", 1, "posts"])).data).toBeNull();
+      expect((await cache.get(["users", 2, "posts"])).data).toBeNull();
+      expect((await cache.get(["users"])).data).toBe("users");
+    });
+
+    it("should invalidate entries matching a predicate", async () => {
+      const removed = await cache.invalidateWhere((key) => key.length === 1);
+
+      expect(removed).toHaveLength(2);
+      expect(removed).toEqual(expect.arrayContaining([["users"], ["todos"]]));
+      expect((await cache.get(["users", 1, "posts"])).data).toBe("posts 1");
+    });
+
+    it("should clear every entry", async () => {
+      await cache.clear();
+
+      expect((await cache.get(["users"])).data).toBeNull();
+      expect((await cache.get(["todos"])).data).toBeNull();
+    });
+
+    it("should notify subscribers", async () => {
+      const listener = jest.fn();
+      cache.subscribe(["users", 1], listener);
+
+      await cache.invalidate(["users"]);
+
+      expect(listener).toHaveBeenCalledWith({
+        type: "invalidate",
+        key: ["users"],
+      });
+    });
+  });
+
+  describe("Serialization", () => {
+    it("should round-trip built-in types", async () => {
+      const data = { createdAt: new Date(0), tags: new Set(["a"]) };
+      await cache.set({ key: ["test"], data });
+
+      expect((await cache.get(["test"])).data).toEqual(data);
+    });
+
+    it("should treat a corrupt file as a miss and delete it", async () => {
+      const logger = {
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+      };
+      cache.stopGarbageCollector();
+      cache = new CacheStoreFileSystem({ directory, logger });
+      await cache.set({ key: ["test"], data: "value" });
+      await writeFile(join(directory, "test", "entry.json"), "{not json");
+
+      expect(await cache.get(["test"])).toEqual({ data: null, stale: false });
+      expect(await readdir(join(directory, "test"))).toEqual([]);
+      expect(logger.error).toHaveBeenCalledWith({
+        event: "corruptEntry",
+        file: join(directory, "test", "entry.json"),
+        error: expect.any(SyntaxError),
+      });
+    });
+  });
+
+  describe("Dehydrate and Hydrate", () => {
+    it("should read only the entries of the given keys", async () => {
+      await cache.set({ key: ["users"], data: "users" });
+      await cache.set({ key: ["users", 1], data: "Ada" });
+
+      const snapshot = await cache.dehydrate({
+        keys: [["users"], ["missing"]],
+      });
+
+      expect(snapshot.entries.map((entry) => entry.key)).toEqual([["users"]]);
+    });
+
+    it("should restore a snapshot into another directory", async () => {
+      await cache.set({ key: ["users", 1], data: "Ada", staleTime: 1000 });
+      await cache.set({ key: ["users", 2], data: "Alan", cacheTime: 500 });
+      const snapshot = await cache.dehydrate();
+      await cache.clear();
+
+      now += 1001;
+
+      expect(await cache.hydrate(snapshot)).toEqual([["users", 1]]);
+      expect(await cache.get(["users", 1])).toEqual({
+        data: "Ada",
+        stale: true,
+      });
+      expect((await cache.get(["users", 2])).data).toBeNull();
+    });
+
+    it("should discard snapshots with another buster", async () => {
+      await cache.set({ key: ["users", 1], data: "Ada" });
+      const snapshot = await cache.dehydrate();
+      cache.stopGarbageCollector();
+      cache = new CacheStoreFileSystem({ directory, buster: "v2" });
+      await cache.clear();
+
+      expect(await cache.hydrate(snapshot)).toEqual([]);
+    });
+  });
+
+  describe("Garbage Collection", () => {
+    it("should delete expired files during cleanup", async () => {
+      await cache.set({ key: ["test1"], data: "data1", cacheTime: 1000 });
+      await cache.set({ key: ["test2"], data: "data2", cacheTime: 2000 });
+
+      now += 1500;
+      await cache.cleanUp();
+
+      expect((await cache.get(["test1"])).data).toBeNull();
+      expect((await cache.get(["test2"])).data).toBe("data2");
+      expect(await readdir(join(directory, "test1"))).toEqual([]);
+    });
+  });
+});
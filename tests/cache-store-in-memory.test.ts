@@ -1,15 +1,22 @@
 import { CacheStoreInMemory } from "../src/cache-store-in-memory";
-import { ConsoleLogger } from "../src/cache-logger";
-import { DEFAULT_STALE_TIME } from "../src/cache.constants";
+import { Logger } from "../src/cache-logger";
+import {
+  DEFAULT_CACHE_TIME,
+  DEFAULT_STALE_TIME,
+  WILDCARD,
+} from "../src/cache.constants";
 
 describe("CacheStoreInMemory", () => {
   let cache: CacheStoreInMemory;
-  let mockLogger: jest.Mocked<ConsoleLogger>;
+  let mockLogger: jest.Mocked<Logger>;
 
   beforeEach(() => {
     jest.useFakeTimers();
     mockLogger = {
-      log: jest.fn(),
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
     };
     cache = new CacheStoreInMemory({
       debug: true,
@@ -46,6 +53,18 @@ describe("CacheStoreInMemory", () => {
       const result = cache.get(["parent", "child"]);
       expect(result.data).toEqual(testData);
     });
+
+    it("should return the metadata of an entry", () => {
+      const timestamp = Date.now();
+      cache.set({ key: ["test"], data: "value", staleTime: 10, cacheTime: 20 });
+
+      expect(cache.getMetadata(["test"])).toEqual({
+        timestamp,
+        staleTime: 10,
+        cacheTime: 20,
+      });
+      expect(cache.getMetadata(["nonexistent"])).toBeNull();
+    });
   });
 
   describe("Cache Invalidation", () => {
@@ -73,6 +92,130 @@ describe("CacheStoreInMemory", () => {
       expect(cache.get(["parent", "child1"]).data).toBeNull();
       expect(cache.get(["parent", "child2"]).data).toBeNull();
     });
+
+    it("should clear every entry", () => {
+      cache.set({ key: ["other"], data: "data3" });
+
+      cache.clear();
+
+      expect(cache.get(["parent", "child1"]).data).toBeNull();
+      expect(cache.get(["other"]).data).toBeNull();
+    });
+  });
+
+  describe("Wildcard and Predicate Invalidation", () => {
+    beforeEach(() => {
+      cache.set({ key: ["users"], data: "users" });
+      cache.set({ key: ["users", 1, "posts"], data: "posts 1" });
+      cache.set({ key: ["users", 2, "posts"], data: "posts 2" });
+      cache.set({ key: ["users", 2, "profile"], data: "profile 2" });
+    });
+
+    it("should invalidate every key matching a wildcard segment", () => {
+      cache.invalidate(["users", WILDCARD, "posts"]);
+
+      expect(cache.get(["users", 1, "posts"]).data).toBeNull();
+      expect(cache.get(["users", 2, "posts"]).data).toBeNull();
+      expect(cache.get(["users", 2, "profile"]).data).toBe("profile 2");
+      expect(cache.get(["users"]).data).toBe("users");
+    });
+
+    it("should keep the parent entry when the last segment is a wildcard", () => {
+      cache.invalidate(["users", WILDCARD]);
+
+      expect(cache.get(["users", 2, "profile"]).data).toBeNull();
+      expect(cache.get(["users"]).data).toBe("users");
+    });
+
+    it("should notify subscribers of each removed key", () => {
+      const listener = jest.fn();
+      cache.subscribe(["users", 2], listener);
+
+      cache.invalidate(["users", WILDCARD, "posts"]);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({
+        type: "invalidate",
+        key: ["users", 2, "posts"],
+      });
+    });
+
+    it("should invalidate entries matching a predicate and return their keys", () => {
+      jest.advanceTimersByTime(1000);
+      cache.set({ key: ["users", 3, "posts"], data: "posts 3" });
+
+      const removed = cache.invalidateWhere(
+        (_key, { timestamp }) => Date.now() - timestamp >= 1000
+      );
+
+      expect(removed).toEqual([
+        ["users"],
+        ["users", 1, "posts"],
+        ["users", 2, "posts"],
+        ["users", 2, "profile"],
+      ]);
+      expect(cache.get(["users", 3, "posts"]).data).toBe("posts 3");
+    });
+
+    it("should only check the entries of the given keys", () => {
+      const removed = cache.invalidateWhere(() => true, {
+        keys: [["users"], ["users", 2, "posts"]],
+      });
+
+      expect(removed).toEqual([["users"], ["users", 2, "posts"]]);
+      expect(cache.get(["users", 1, "posts"]).data).toBe("posts 1");
+      expect(cache.get(["users", 2, "profile"]).data).toBe("profile 2");
+    });
+
+    it("should pass the key and entry metadata to the predicate", () => {
+      const predicate = jest.fn().mockReturnValue(false);
+
+      const removed = cache.invalidateWhere(predicate);
+
+      expect(removed).toEqual([]);
+      expect(predicate).toHaveBeenCalledWith(["users", 1, "posts"], {
+        timestamp: expect.any(Number),
+        staleTime: DEFAULT_STALE_TIME,
+        cacheTime: expect.any(Number),
+      });
+      expect(cache.get(["users", 1, "posts"]).data).toBe("posts 1");
+    });
+  });
+
+  describe("Object Key Segments", () => {
+    it("should look up object segments by content", () => {
+      cache.set({ key: ["todos", { status: "active", page: 1 }], data: "a" });
+
+      expect(cache.get(["todos", { page: 1, status: "active" }]).data).toBe(
+        "a"
+      );
+      expect(cache.get(["todos", { status: "done", page: 1 }]).data).toBeNull();
+    });
+
+    it("should support array segments", () => {
+      cache.set({ key: ["todos", [1, 2]], data: "a" });
+
+      expect(cache.get(["todos", [1, 2]]).data).toBe("a");
+      expect(cache.get(["todos", [2, 1]]).data).toBeNull();
+    });
+
+    it("should invalidate object segments by prefix", () => {
+      cache.set({ key: ["todos", { status: "active" }, 1], data: "a" });
+      cache.set({ key: ["todos", { status: "done" }, 1], data: "b" });
+
+      cache.invalidate(["todos", { status: "active" }]);
+
+      expect(cache.get(["todos", { status: "active" }, 1]).data).toBeNull();
+      expect(cache.get(["todos", { status: "done" }, 1]).data).toBe("b");
+    });
+
+    it("should pass the original key to predicates", () => {
+      cache.set({ key: ["todos", { status: "active" }], data: "a" });
+
+      const removed = cache.invalidateWhere(() => true);
+
+      expect(removed).toEqual([["todos", { status: "active" }]]);
+    });
   });
 
   describe("Stale and Cache Time Behavior", () => {
@@ -171,24 +314,361 @@ describe("CacheStoreInMemory", () => {
     });
   });
 
-  describe("Debug Logging", () => {
-    it("should log debug messages when debug is enabled", () => {
+  describe("Size Limits", () => {
+    it("should evict the least recently used entry over maxEntries", () => {
+      cache = new CacheStoreInMemory({
+        maxEntries: 2,
+        debug: true,
+        logger: mockLogger,
+      });
+
+      cache.set({ key: ["a"], data: "a" });
+      cache.set({ key: ["b"], data: "b" });
+      cache.get(["a"]);
+      cache.set({ key: ["c"], data: "c" });
+
+      expect(cache.get(["a"]).data).toBe("a");
+      expect(cache.get(["b"]).data).toBeNull();
+      expect(cache.get(["c"]).data).toBe("c");
+      expect(mockLogger.debug).toHaveBeenCalledWith({
+        event: "evict",
+        key: ["b"],
+        reason: "maxEntries",
+      });
+    });
+
+    it("should evict entries over maxBytes", () => {
+      cache = new CacheStoreInMemory({
+        maxBytes: 100,
+        debug: true,
+        logger: mockLogger,
+      });
+
+      cache.set({ key: ["a"], data: "x".repeat(30) });
+      cache.set({ key: ["b"], data: "x".repeat(30) });
+      cache.set({ key: ["c"], data: "x".repeat(30) });
+
+      expect(cache.get(["a"]).data).toBeNull();
+      expect(cache.get(["b"]).data).toBeNull();
+      expect(cache.get(["c"]).data).toBe("x".repeat(30));
+      expect(mockLogger.debug).toHaveBeenCalledWith({
+        event: "evict",
+        key: ["a"],
+        reason: "maxBytes",
+      });
+    });
+
+    it("should only evict the entry and keep its descendants", () => {
+      cache = new CacheStoreInMemory({ maxEntries: 2 });
+
+      cache.set({ key: ["a"], data: "a" });
+      cache.set({ key: ["a", "b"], data: "b" });
+      cache.set({ key: ["c"], data: "c" });
+
+      expect(cache.get(["a"]).data).toBeNull();
+      expect(cache.get(["a", "b"]).data).toBe("b");
+    });
+
+    it("should not count invalidated entries", () => {
+      cache = new CacheStoreInMemory({ maxEntries: 2 });
+
+      cache.set({ key: ["a", 1], data: "a1" });
+      cache.set({ key: ["a", 2], data: "a2" });
+      cache.invalidate(["a"]);
+      cache.set({ key: ["b"], data: "b" });
+      cache.set({ key: ["c"], data: "c" });
+
+      expect(cache.get(["b"]).data).toBe("b");
+      expect(cache.get(["c"]).data).toBe("c");
+    });
+
+    it("should notify subscribers of evicted entries", () => {
+      const listener = jest.fn();
+      cache = new CacheStoreInMemory({ maxEntries: 1 });
+      cache.subscribe(["a"], listener);
+
+      cache.set({ key: ["a"], data: "a" });
+      cache.set({ key: ["b"], data: "b" });
+
+      expect(listener).toHaveBeenLastCalledWith({ type: "gc", key: ["a"] });
+    });
+  });
+
+  describe("Subscriptions", () => {
+    let listener: jest.Mock;
+
+    beforeEach(() => {
+      listener = jest.fn();
+    });
+
+    it("should notify on set of the key or its descendants", () => {
+      cache.subscribe(["users"], listener);
+
+      cache.set({ key: ["users"], data: "all" });
+      cache.set({ key: ["users", 1], data: "user" });
+      cache.set({ key: ["todos"], data: "todos" });
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenNthCalledWith(1, {
+        type: "set",
+        key: ["users"],
+      });
+      expect(listener).toHaveBeenNthCalledWith(2, {
+        type: "set",
+        key: ["users", 1],
+      });
+    });
+
+    it("should notify when the key or an ancestor is invalidated", () => {
+      cache.set({ key: ["users", 1], data: "user" });
+      cache.subscribe(["users", 1], listener);
+
+      cache.invalidate(["users"]);
+
+      expect(listener).toHaveBeenCalledWith({
+        type: "invalidate",
+        key: ["users"],
+      });
+    });
+
+    it("should not notify when nothing was invalidated", () => {
+      cache.subscribe(["users"], listener);
+
+      cache.invalidate(["users", 1]);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should notify on garbage collection", () => {
+      cache.set({ key: ["users", 1], data: "user", cacheTime: 1000 });
+      cache.subscribe(["users"], listener);
+
+      jest.advanceTimersByTime(1500);
+      cache.cleanUp();
+
+      expect(listener).toHaveBeenCalledWith({ type: "gc", key: ["users", 1] });
+    });
+
+    it("should notify every listener on clear", () => {
+      cache.set({ key: ["users", 1], data: "user" });
+      cache.subscribe(["users", 1], listener);
+
+      cache.clear();
+
+      expect(listener).toHaveBeenCalledWith({ type: "invalidate", key: [] });
+    });
+
+    it("should stop notifying after unsubscribe", () => {
+      const unsubscribe = cache.subscribe(["users"], listener);
+      unsubscribe();
+
+      cache.set({ key: ["users"], data: "all" });
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Dehydrate and Hydrate", () => {
+    let target: CacheStoreInMemory;
+
+    beforeEach(() => {
+      cache.set({ key: ["users", 1], data: { name: "Ada" }, staleTime: 1000 });
+      cache.set({ key: ["users", 2], data: { name: "Alan" }, cacheTime: 500 });
+      cache.set({ key: ["settings"], data: "dark" });
+      target = new CacheStoreInMemory();
+    });
+
+    afterEach(() => {
+      target.stopGarbageCollector();
+    });
+
+    it("should dehydrate every entry with its times", () => {
+      const snapshot = cache.dehydrate();
+
+      expect(snapshot.buster).toBe("");
+      expect(snapshot.entries).toContainEqual({
+        key: ["users", 1],
+        data: { name: "Ada" },
+        timestamp: Date.now(),
+        staleTime: 1000,
+        cacheTime: DEFAULT_CACHE_TIME,
+      });
+      expect(snapshot.entries).toHaveLength(3);
+    });
+
+    it("should dehydrate the entries matching a filter", () => {
+      const snapshot = cache.dehydrate({ filter: (key) => key[0] === "users" });
+
+      expect(snapshot.entries.map((entry) => entry.key)).toEqual([
+        ["users", 1],
+        ["users", 2],
+      ]);
+    });
+
+    it("should dehydrate only the entries of the given keys", () => {
+      const snapshot = cache.dehydrate({
+        keys: [["users", 1], ["users"], ["missing"]],
+      });
+
+      expect(snapshot.entries.map((entry) => entry.key)).toEqual([
+        ["users", 1],
+      ]);
+    });
+
+    it("should survive a JSON round trip", () => {
+      const snapshot = JSON.parse(JSON.stringify(cache.dehydrate()));
+
+      expect(target.hydrate(snapshot)).toHaveLength(3);
+      expect(target.get(["users", 1]).data).toEqual({ name: "Ada" });
+    });
+
+    it("should keep the original timestamps", () => {
+      const snapshot = cache.dehydrate();
+
+      jest.advanceTimersByTime(1001);
+      target.hydrate(snapshot);
+
+      expect(target.get(["users", 1]).stale).toBe(true);
+      expect(target.get(["settings"]).stale).toBe(false);
+    });
+
+    it("should skip expired entries", () => {
+      const snapshot = cache.dehydrate();
+
+      jest.advanceTimersByTime(501);
+      const restored = target.hydrate(snapshot);
+
+      expect(restored).not.toContainEqual(["users", 2]);
+      expect(target.get(["users", 2]).data).toBeNull();
+      expect(target.get(["users", 1]).data).toEqual({ name: "Ada" });
+    });
+
+    it("should discard snapshots with another buster", () => {
+      const snapshot = cache.dehydrate();
+      target.stopGarbageCollector();
+      target = new CacheStoreInMemory({ buster: "v2" });
+
+      expect(target.hydrate(snapshot)).toEqual([]);
+      expect(target.get(["settings"]).data).toBeNull();
+    });
+
+    it("should migrate hydrated entries written with a previous schema", () => {
+      const snapshot = cache.dehydrate({ filter: (key) => key[0] === "users" });
+      target.stopGarbageCollector();
+      target = new CacheStoreInMemory({
+        schemas: [
+          {
+            queryKey: ["users"],
+            schemaVersion: 2,
+            migrate: (user: { name: string }) => ({ fullName: user.name }),
+          },
+        ],
+      });
+
+      target.hydrate(snapshot);
+
+      expect(target.get(["users", 1]).data).toEqual({ fullName: "Ada" });
+    });
+
+    it("should notify subscribers of the restored keys", () => {
+      const listener = jest.fn();
+      target.subscribe(["users"], listener);
+
+      target.hydrate(cache.dehydrate());
+
+      expect(listener).toHaveBeenCalledWith({ type: "set", key: ["users", 1] });
+      expect(listener).toHaveBeenCalledWith({ type: "set", key: ["users", 2] });
+    });
+  });
+
+  describe("Stats", () => {
+    it("should count reads, writes, invalidations and evictions", () => {
+      cache.set({ key: ["users", 1], data: "Ada", staleTime: 1000 });
+      cache.set({ key: ["todos"], data: [], cacheTime: 1000 });
+      cache.get(["users", 1]);
+      cache.get(["users", 2]);
+
+      jest.advanceTimersByTime(1001);
+      cache.get(["users", 1]);
+      cache.cleanUp();
+      cache.invalidate(["users"]);
+
+      expect(cache.getStats().total).toMatchObject({
+        hits: 2,
+        staleHits: 1,
+        misses: 1,
+        sets: 2,
+        invalidations: 1,
+        gcEvictions: 1,
+      });
+      expect(cache.getStats().byPrefix.todos).toMatchObject({
+        sets: 1,
+        gcEvictions: 1,
+      });
+    });
+
+    it("should count size evictions", () => {
+      cache.stopGarbageCollector();
+      cache = new CacheStoreInMemory({ maxEntries: 1 });
+
+      cache.set({ key: ["a"], data: 1 });
+      cache.set({ key: ["b"], data: 2 });
+
+      expect(cache.getStats().total.gcEvictions).toBe(1);
+    });
+
+    it("should reset the stats", () => {
+      cache.get(["missing"]);
+
+      cache.resetStats();
+
+      expect(cache.getStats().total.misses).toBe(0);
+    });
+  });
+
+  describe("Logging", () => {
+    it("should log debug events when debug is enabled", () => {
       const testData = { test: "log-test" };
       cache.set({ key: ["test"], data: testData });
+      cache.get(["test"]);
 
-      expect(mockLogger.log).toHaveBeenCalledWith(
-        "[Cache Debug]",
-        "Set:",
-        ["test"],
-        expect.any(Object)
-      );
+      expect(mockLogger.debug).toHaveBeenCalledWith({
+        event: "set",
+        key: ["test"],
+      });
+      expect(mockLogger.debug).toHaveBeenCalledWith({
+        event: "hit",
+        key: ["test"],
+        stale: false,
+      });
     });
 
-    it("should not log when debug is disabled", () => {
-      cache = new CacheStoreInMemory({ debug: false });
+    it("should not log debug events when debug is disabled", () => {
+      cache.stopGarbageCollector();
+      cache = new CacheStoreInMemory({ debug: false, logger: mockLogger });
+      mockLogger.debug.mockClear();
       cache.set({ key: ["test"], data: "test" });
 
-      expect(mockLogger.log).not.toHaveBeenCalled();
+      expect(mockLogger.debug).not.toHaveBeenCalled();
+    });
+
+    it("should log invalid keys as warnings", () => {
+      cache.stopGarbageCollector();
+      cache = new CacheStoreInMemory({ logger: mockLogger });
+      cache.set({ key: [], data: "test" });
+
+      expect(mockLogger.warn).toHaveBeenCalledWith({
+        event: "invalidKey",
+        key: [],
+      });
+    });
+
+    it("should drop the entries below the log level", () => {
+      cache.stopGarbageCollector();
+      cache = new CacheStoreInMemory({ logLevel: "error", logger: mockLogger });
+      cache.set({ key: [], data: "test" });
+
+      expect(mockLogger.warn).not.toHaveBeenCalled();
     });
   });
 
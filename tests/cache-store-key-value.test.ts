@@ -0,0 +1,390 @@
+import { CacheStoreKeyValue } from "../src/cache-store-key-value";
+import { Logger } from "../src/cache-logger";
+import { CacheSchema } from "../src/cache.types";
+import { DEFAULT_STALE_TIME, WILDCARD } from "../src/cache.constants";
+import { MapStorageAdapter, WebStorageAdapter } from "../src/storage-adapter";
+
+/**
+ * Minimal in-memory implementation of the Web Storage API.
+ */
+class FakeWebStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+  clear() {
+    this.items.clear();
+  }
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+describe("CacheStoreKeyValue", () => {
+  let storage: MapStorageAdapter;
+  let cache: CacheStoreKeyValue;
+  let mockLogger: jest.Mocked<Logger>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    storage = new MapStorageAdapter();
+    cache = new CacheStoreKeyValue(storage, {
+      debug: true,
+      logger: mockLogger,
+    });
+  });
+
+  afterEach(() => {
+    cache.stopGarbageCollector();
+    jest.clearAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe("Basic Cache Operations", () => {
+    it("should store and retrieve data", () => {
+      cache.set({ key: ["test"], data: { test: "value" } });
+
+      expect(cache.get(["test"])).toEqual({
+        data: { test: "value" },
+        stale: false,
+      });
+    });
+
+    it("should return null for non-existent keys", () => {
+      expect(cache.get(["nonexistent"])).toEqual({ data: null, stale: false });
+    });
+
+    it("should return the metadata of an entry", () => {
+      const timestamp = Date.now();
+      cache.set({ key: ["test"], data: "value", staleTime: 10, cacheTime: 20 });
+
+      expect(cache.getMetadata(["test"])).toEqual({
+        timestamp,
+        staleTime: 10,
+        cacheTime: 20,
+      });
+      expect(cache.getMetadata(["nonexistent"])).toBeNull();
+    });
+
+    it("should store entries under their hashed key", () => {
+      cache.set({ key: ["users", 1, { tab: "posts" }], data: "posts" });
+
+      expect(storage.getAllKeys()).toEqual([
+        "users:1:%7B%22tab%22%3A%22posts%22%7D",
+      ]);
+    });
+
+    it("should mark data as stale after staleTime", () => {
+      cache.set({ key: ["test"], data: "value" });
+
+      jest.advanceTimersByTime(DEFAULT_STALE_TIME + 1);
+
+      expect(cache.get(["test"]).stale).toBe(true);
+    });
+
+    it("should ignore empty keys", () => {
+      cache.set({ key: [], data: "test" });
+
+      expect(storage.getAllKeys()).toEqual([]);
+      expect(mockLogger.warn).toHaveBeenCalledWith({
+        event: "invalidKey",
+        key: [],
+      });
+    });
+  });
+
+  describe("Cache Invalidation", () => {
+    beforeEach(() => {
+      cache.set({ key: ["users"], data: "users" });
+      cache.set({ key: ["users", 1, "posts"], data: "posts 1" });
+      cache.set({ key: ["users", 2, "posts"], data: "posts 2" });
+      cache.set({ key: ["users", 2, "profile"], data: "profile 2" });
+      cache.set({ key: ["usersettings"], data: "settings" });
+    });
+
+    it("should invalidate a key and its descendants", () => {
+      cache.invalidate(["users", 2]);
+
+      expect(cache.get(["users", 2, "posts"]).data).toBeNull();
+      expect(cache.get(["users", 2, "profile"]).data).toBeNull();
+      expect(cache.get(["users", 1, "posts"]).data).toBe("posts 1");
+      expect(cache.get(["users"]).data).toBe("users");
+    });
+
+    it("should not invalidate keys sharing a string prefix", () => {
+      cache.invalidate(["users"]);
+
+      expect(cache.get(["users"]).data).toBeNull();
+      expect(cache.get(["usersettings"]).data).toBe("settings");
+    });
+
+    it("should invalidate keys with ':' in a string segment", () => {
+      cache.set({ key: ["url", "http://x"], data: "page" });
+      cache.set({ key: ["url", "http://x", "meta"], data: "meta" });
+
+      cache.invalidate(["url", "http://x"]);
+
+      expect(cache.get(["url", "http://x"]).data).toBeNull();
+      expect(cache.get(["url", "http://x", "meta"]).data).toBeNull();
+    });
+
+    it("should invalidate keys matching a wildcard", () => {
+      cache.invalidate(["users", WILDCARD, "posts"]);
+
+      expect(cache.get(["users", 1, "posts"]).data).toBeNull();
+      expect(cache.get(["users", 2, "posts"]).data).toBeNull();
+      expect(cache.get(["users", 2, "profile"]).data).toBe("profile 2");
+    });
+
+    it("should invalidate entries matching a predicate with their original keys", () => {
+      const removed = cache.invalidateWhere((key) => key[1] === 2);
+
+      expect(removed).toEqual([
+        ["users", 2, "posts"],
+        ["users", 2, "profile"],
+      ]);
+      expect(cache.get(["users", 1, "posts"]).data).toBe("posts 1");
+    });
+
+    it("should clear every entry", () => {
+      cache.clear();
+
+      expect(storage.getAllKeys()).toEqual([]);
+    });
+
+    it("should notify subscribers", () => {
+      const listener = jest.fn();
+      cache.subscribe(["users", 2, "posts"], listener);
+
+      cache.invalidate(["users"]);
+
+      expect(listener).toHaveBeenCalledWith({
+        type: "invalidate",
+        key: ["users"],
+      });
+    });
+  });
+
+  describe("Garbage Collection", () => {
+    it("should remove expired entries during cleanup", () => {
+      cache.set({ key: ["test1"], data: "data1", cacheTime: 1000 });
+      cache.set({ key: ["test2"], data: "data2", cacheTime: 2000 });
+
+      jest.advanceTimersByTime(1500);
+      cache.cleanUp();
+
+      expect(cache.get(["test1"]).data).toBeNull();
+      expect(cache.get(["test2"]).data).toBe("data2");
+    });
+
+    it("should perform automatic garbage collection", () => {
+      cache.stopGarbageCollector();
+      cache = new CacheStoreKeyValue(storage, { gcInterval: 1000 });
+      cache.set({ key: ["test"], data: "data", cacheTime: 500 });
+
+      jest.advanceTimersByTime(1500);
+
+      expect(storage.getAllKeys()).toEqual([]);
+    });
+  });
+
+  describe("Serialization", () => {
+    it("should round-trip built-in types", () => {
+      const data = {
+        createdAt: new Date(0),
+        tags: new Set(["a"]),
+        counts: new Map([["a", BigInt(1)]]),
+      };
+      cache.set({ key: ["test"], data });
+
+      expect(cache.get(["test"]).data).toEqual(data);
+    });
+
+    it("should use a custom serializer", () => {
+      const serializer = {
+        serialize: jest.fn(JSON.stringify),
+        deserialize: jest.fn(JSON.parse),
+      };
+      cache.stopGarbageCollector();
+      cache = new CacheStoreKeyValue(storage, { serializer });
+
+      cache.set({ key: ["test"], data: "value" });
+
+      expect(cache.get(["test"]).data).toBe("value");
+      expect(serializer.serialize).toHaveBeenCalled();
+      expect(serializer.deserialize).toHaveBeenCalled();
+    });
+
+    it("should treat a corrupt payload as a miss and delete it", () => {
+      storage.set("test", "{not json");
+
+      expect(cache.get(["test"])).toEqual({ data: null, stale: false });
+      expect(storage.getAllKeys()).toEqual([]);
+      expect(mockLogger.error).toHaveBeenCalledWith({
+        event: "corruptEntry",
+        storageKey: "test",
+        error: expect.any(SyntaxError),
+      });
+    });
+
+    it("should delete payloads that are not cache entries", () => {
+      storage.set("test", "42");
+
+      expect(cache.get(["test"]).data).toBeNull();
+      expect(storage.getAllKeys()).toEqual([]);
+    });
+
+    it("should skip corrupt payloads during cleanup", () => {
+      cache.set({ key: ["valid"], data: "data" });
+      storage.set("corrupt", "{not json");
+
+      expect(() => cache.cleanUp()).not.toThrow();
+      expect(storage.getAllKeys()).toEqual(["valid"]);
+    });
+  });
+
+  describe("Schemas", () => {
+    const createCache = (schemas: CacheSchema[]) => {
+      cache.stopGarbageCollector();
+      cache = new CacheStoreKeyValue(storage, { schemas, logger: mockLogger });
+    };
+
+    beforeEach(() => {
+      createCache([{ queryKey: ["users"], schemaVersion: 1 }]);
+      cache.set({ key: ["users", 1], data: "Ada Lovelace" });
+    });
+
+    it("should store the schema version with the entry", () => {
+      expect(JSON.parse(storage.getString("users:1") ?? "")).toMatchObject({
+        schemaVersion: 1,
+      });
+    });
+
+    it("should migrate entries written with a previous version", () => {
+      createCache([
+        {
+          queryKey: ["users"],
+          schemaVersion: 2,
+          migrate: (name: string) => ({ name }),
+        },
+      ]);
+
+      expect(cache.get(["users", 1]).data).toEqual({ name: "Ada Lovelace" });
+      expect(JSON.parse(storage.getString("users:1") ?? "")).toMatchObject({
+        data: { name: "Ada Lovelace" },
+        schemaVersion: 2,
+      });
+    });
+
+    it("should drop entries that can't be migrated", () => {
+      createCache([{ queryKey: ["users"], schemaVersion: 2 }]);
+
+      expect(cache.get(["users", 1])).toEqual({ data: null, stale: false });
+      expect(storage.getAllKeys()).toEqual([]);
+      expect(mockLogger.warn).toHaveBeenCalledWith({
+        event: "invalidEntry",
+        key: ["users", 1],
+      });
+    });
+
+    it("should drop entries failing validation", () => {
+      createCache([
+        {
+          queryKey: ["users"],
+          schemaVersion: 1,
+          validate: (data) => typeof data === "object",
+        },
+      ]);
+
+      expect(cache.get(["users", 1]).data).toBeNull();
+    });
+  });
+
+  describe("Dehydrate and Hydrate", () => {
+    it("should restore a snapshot into another storage", () => {
+      cache.set({ key: ["users", 1], data: "Ada", staleTime: 1000 });
+      cache.set({ key: ["users", 2], data: "Alan", cacheTime: 500 });
+      const snapshot = cache.dehydrate();
+      const target = new CacheStoreKeyValue(new MapStorageAdapter());
+
+      jest.advanceTimersByTime(1001);
+
+      expect(target.hydrate(snapshot)).toEqual([["users", 1]]);
+      expect(target.get(["users", 1])).toEqual({ data: "Ada", stale: true });
+      expect(target.get(["users", 2]).data).toBeNull();
+      target.stopGarbageCollector();
+    });
+
+    it("should read only the entries of the given keys", () => {
+      cache.set({ key: ["users", 1], data: "Ada" });
+      cache.set({ key: ["users", 2], data: "Alan" });
+      const getAllKeys = jest.spyOn(storage, "getAllKeys");
+
+      const snapshot = cache.dehydrate({ keys: [["users", 1], ["missing"]] });
+      const removed = cache.invalidateWhere(() => true, {
+        keys: [["users", 2]],
+      });
+
+      expect(snapshot.entries.map((entry) => entry.key)).toEqual([
+        ["users", 1],
+      ]);
+      expect(removed).toEqual([["users", 2]]);
+      expect(cache.get(["users", 1]).data).toBe("Ada");
+      expect(getAllKeys).not.toHaveBeenCalled();
+    });
+
+    it("should discard snapshots with another buster", () => {
+      cache.set({ key: ["users", 1], data: "Ada" });
+      const target = new CacheStoreKeyValue(new MapStorageAdapter(), {
+        buster: "v2",
+      });
+
+      expect(target.hydrate(cache.dehydrate())).toEqual([]);
+      target.stopGarbageCollector();
+    });
+  });
+
+  describe("WebStorageAdapter", () => {
+    let webStorage: FakeWebStorage;
+
+    beforeEach(() => {
+      webStorage = new FakeWebStorage();
+      webStorage.setItem("unrelated", "not json");
+      cache.stopGarbageCollector();
+      cache = new CacheStoreKeyValue(new WebStorageAdapter(webStorage));
+    });
+
+    it("should namespace keys with a prefix", () => {
+      cache.set({ key: ["users", 1], data: "user" });
+
+      expect(webStorage.getItem("query-with-cache:users:1")).not.toBeNull();
+      expect(cache.get(["users", 1]).data).toBe("user");
+    });
+
+    it("should leave other keys untouched", () => {
+      cache.set({ key: ["users", 1], data: "user" });
+
+      cache.cleanUp();
+      cache.clear();
+
+      expect(webStorage.length).toBe(1);
+      expect(webStorage.getItem("unrelated")).toBe("not json");
+    });
+  });
+});
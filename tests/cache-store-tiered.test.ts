@@ -0,0 +1,251 @@
+import { CacheStoreInMemory } from "../src/cache-store-in-memory";
+import { CacheStoreKeyValue } from "../src/cache-store-key-value";
+import { CacheStoreTiered } from "../src/cache-store-tiered";
+import { WILDCARD } from "../src/cache.constants";
+import { MapStorageAdapter } from "../src/storage-adapter";
+
+describe("CacheStoreTiered", () => {
+  let l1: CacheStoreInMemory;
+  let l2: CacheStoreKeyValue;
+  let cache: CacheStoreTiered;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    l1 = new CacheStoreInMemory();
+    l2 = new CacheStoreKeyValue(new MapStorageAdapter());
+    cache = new CacheStoreTiered(l1, l2);
+  });
+
+  afterEach(() => {
+    cache.stopGarbageCollector();
+    jest.useRealTimers();
+  });
+
+  describe("Reads and Writes", () => {
+    it("should write through to both tiers", () => {
+      cache.set({ key: ["todos"], data: ["todo"] });
+
+      expect(l1.get(["todos"]).data).toEqual(["todo"]);
+      expect(l2.get(["todos"]).data).toEqual(["todo"]);
+    });
+
+    it("should read from L1 first", () => {
+      cache.set({ key: ["todos"], data: "shared" });
+      const l2Get = jest.spyOn(l2, "get");
+
+      expect(cache.get(["todos"]).data).toBe("shared");
+      expect(l2Get).not.toHaveBeenCalled();
+    });
+
+    it("should promote fresh L2 hits to L1", () => {
+      l2.set({ key: ["todos"], data: "persisted" });
+
+      expect(cache.get(["todos"])).toEqual({ data: "persisted", stale: false });
+      expect(l1.get(["todos"]).data).toBe("persisted");
+    });
+
+    it("should not promote stale L2 hits", () => {
+      l2.set({ key: ["todos"], data: "persisted", staleTime: 1000 });
+      jest.advanceTimersByTime(1001);
+
+      expect(cache.get(["todos"])).toEqual({ data: "persisted", stale: true });
+      expect(l1.get(["todos"]).data).toBeNull();
+    });
+
+    it("should return a miss when neither tier has the key", () => {
+      expect(cache.get(["todos"])).toEqual({ data: null, stale: false });
+    });
+  });
+
+  describe("Tier Times", () => {
+    beforeEach(() => {
+      cache = new CacheStoreTiered(l1, l2, {
+        l1: { cacheTime: 1000 },
+        l2: { cacheTime: 10000 },
+      });
+    });
+
+    it("should apply the cache time of each tier", () => {
+      cache.set({ key: ["todos"], data: "data", cacheTime: 5000 });
+
+      jest.advanceTimersByTime(2000);
+      cache.cleanUp();
+
+      expect(l1.get(["todos"]).data).toBeNull();
+      expect(l2.get(["todos"]).data).toBe("data");
+      expect(cache.get(["todos"]).data).toBe("data");
+    });
+
+    it("should apply the L1 times when promoting", () => {
+      l2.set({ key: ["todos"], data: "data" });
+      cache.get(["todos"]);
+
+      jest.advanceTimersByTime(2000);
+      l1.cleanUp();
+
+      expect(l1.get(["todos"]).data).toBeNull();
+    });
+
+    it("should keep the L2 timestamp when promoting", () => {
+      l2.set({ key: ["todos"], data: "data", staleTime: 20000 });
+      jest.advanceTimersByTime(18000);
+      cache.get(["todos"]);
+
+      jest.advanceTimersByTime(3000);
+
+      expect(l1.get(["todos"]).stale).toBe(true);
+    });
+
+    it("should cap the promoted entry by the L1 times", () => {
+      cache = new CacheStoreTiered(l1, l2, { l1: { staleTime: 10000 } });
+      l2.set({ key: ["todos"], data: "data", staleTime: 20000 });
+      jest.advanceTimersByTime(15000);
+
+      expect(cache.get(["todos"]).stale).toBe(false);
+      expect(l1.get(["todos"])).toEqual({ data: "data", stale: true });
+    });
+
+    it("should read stale L1 hits from L2", () => {
+      cache = new CacheStoreTiered(l1, l2, { l1: { staleTime: 1000 } });
+      cache.set({ key: ["todos"], data: "data" });
+      jest.advanceTimersByTime(1001);
+      l2.set({ key: ["todos"], data: "updated" });
+
+      expect(cache.get(["todos"])).toEqual({ data: "updated", stale: false });
+      expect(l1.get(["todos"]).data).toBe("updated");
+    });
+
+    it("should return stale when both tiers are stale", () => {
+      cache = new CacheStoreTiered(l1, l2, { l1: { staleTime: 1000 } });
+      cache.set({ key: ["todos"], data: "data", staleTime: 2000 });
+      jest.advanceTimersByTime(2001);
+
+      expect(cache.get(["todos"])).toEqual({ data: "data", stale: true });
+    });
+
+    it("should return a stale L1 hit when L2 misses", () => {
+      cache = new CacheStoreTiered(l1, l2, { l1: { staleTime: 1000 } });
+      cache.set({ key: ["todos"], data: "data" });
+      l2.invalidate(["todos"]);
+      jest.advanceTimersByTime(1001);
+
+      expect(cache.get(["todos"])).toEqual({ data: "data", stale: true });
+    });
+  });
+
+  describe("Invalidation", () => {
+    beforeEach(() => {
+      cache.set({ key: ["users", 1, "posts"], data: "posts 1" });
+      cache.set({ key: ["users", 2, "posts"], data: "posts 2" });
+      cache.set({ key: ["users", 2, "profile"], data: "profile 2" });
+    });
+
+    it("should invalidate both tiers", () => {
+      cache.invalidate(["users", 2]);
+
+      expect(cache.get(["users", 2, "posts"]).data).toBeNull();
+      expect(l1.get(["users", 2, "profile"]).data).toBeNull();
+      expect(l2.get(["users", 2, "profile"]).data).toBeNull();
+      expect(cache.get(["users", 1, "posts"]).data).toBe("posts 1");
+    });
+
+    it("should invalidate wildcard patterns in both tiers", () => {
+      cache.invalidate(["users", WILDCARD, "posts"]);
+
+      expect(cache.get(["users", 1, "posts"]).data).toBeNull();
+      expect(cache.get(["users", 2, "posts"]).data).toBeNull();
+      expect(cache.get(["users", 2, "profile"]).data).toBe("profile 2");
+    });
+
+    it("should return each key removed by a predicate once", () => {
+      const removed = cache.invalidateWhere((key) => key[1] === 2);
+
+      expect(removed).toEqual([
+        ["users", 2, "posts"],
+        ["users", 2, "profile"],
+      ]);
+      expect(l2.get(["users", 2, "posts"]).data).toBeNull();
+    });
+
+    it("should clear both tiers", () => {
+      cache.clear();
+
+      expect(l1.get(["users", 1, "posts"]).data).toBeNull();
+      expect(l2.get(["users", 1, "posts"]).data).toBeNull();
+    });
+  });
+
+  describe("Dehydrate and Hydrate", () => {
+    it("should dehydrate L2", () => {
+      l2.set({ key: ["todos"], data: "persisted" });
+
+      expect(cache.dehydrate().entries.map((entry) => entry.key)).toEqual([
+        ["todos"],
+      ]);
+    });
+
+    it("should hydrate L2 and replace the L1 entries", () => {
+      cache.set({ key: ["todos"], data: "old" });
+      const snapshot = cache.dehydrate();
+      cache.set({ key: ["todos"], data: "new" });
+
+      cache.hydrate(snapshot);
+
+      expect(l1.get(["todos"]).data).toBeNull();
+      expect(cache.get(["todos"]).data).toBe("old");
+    });
+  });
+
+  describe("Stats", () => {
+    it("should count reads across tiers and the L2 events", () => {
+      cache.set({ key: ["todos"], data: "data" });
+      l2.set({ key: ["users"], data: "persisted" });
+
+      cache.get(["todos"]);
+      cache.get(["users"]);
+      cache.get(["missing"]);
+      cache.invalidate(["todos"]);
+
+      expect(cache.getStats().total).toMatchObject({
+        hits: 2,
+        misses: 1,
+        sets: 2,
+        invalidations: 1,
+      });
+    });
+  });
+
+  describe("Subscriptions", () => {
+    it("should notify subscribers once per write", () => {
+      const listener = jest.fn();
+      cache.subscribe(["todos"], listener);
+
+      cache.set({ key: ["todos"], data: "data" });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ type: "set", key: ["todos"] });
+    });
+
+    it("should read the new data from a listener", () => {
+      cache.set({ key: ["todos"], data: "old" });
+      let read: unknown;
+      cache.subscribe(["todos"], () => {
+        read = cache.get(["todos"]).data;
+      });
+
+      cache.set({ key: ["todos"], data: "new" });
+
+      expect(read).toBe("new");
+    });
+
+    it("should not notify subscribers when promoting", () => {
+      l2.set({ key: ["todos"], data: "data" });
+      const listener = jest.fn();
+      cache.subscribe(["todos"], listener);
+
+      cache.get(["todos"]);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { CacheStoreInMemory } from "../src/cache-store-in-memory";
+import {
+  InfiniteData,
+  InfiniteQueryWithCacheParams,
+  fetchNextPage,
+  fetchPreviousPage,
+  hasNextPage,
+  hasPreviousPage,
+  infiniteQueryWithCache,
+} from "../src/infinite-query-with-cache";
+
+interface Page {
+  items: string[];
+  cursor: number;
+}
+
+const LAST_PAGE = 3;
+
+describe("infiniteQueryWithCache", () => {
+  let cache: CacheStoreInMemory;
+  let fetchPage: jest.Mock;
+  let handleData: jest.Mock;
+  let params: InfiniteQueryWithCacheParams<Page, number>;
+  let version: number;
+
+  const getCached = () =>
+    cache.get<InfiniteData<Page, number>>(["feed"]).data as InfiniteData<
+      Page,
+      number
+    >;
+
+  beforeEach(() => {
+    cache = new CacheStoreInMemory();
+    version = 1;
+    fetchPage = jest.fn(async ({ pageParam }: { pageParam: number }) => ({
+      items: [`item ${pageParam} v${version}`],
+      cursor: pageParam,
+    }));
+    handleData = jest.fn();
+    params = {
+      queryKey: ["feed"],
+      cache,
+      queryFn: fetchPage,
+      onData: handleData,
+      initialPageParam: 1,
+      getNextPageParam: (lastPage) =>
+        lastPage.cursor < LAST_PAGE ? lastPage.cursor + 1 : null,
+      getPreviousPageParam: (firstPage) =>
+        firstPage.cursor > 0 ? firstPage.cursor - 1 : null,
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    cache.stopGarbageCollector();
+  });
+
+  it("should fetch the first page on a miss", async () => {
+    await infiniteQueryWithCache(params);
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    expect(fetchPage).toHaveBeenCalledWith(
+      expect.objectContaining({ pageParam: 1 })
+    );
+    expect(handleData).toHaveBeenCalledWith({
+      pages: [{ items: ["item 1 v1"], cursor: 1 }],
+      pageParams: [1],
+    });
+  });
+
+  it("should append the next page under the same key", async () => {
+    await infiniteQueryWithCache(params);
+
+    await fetchNextPage(params);
+
+    expect(getCached().pageParams).toEqual([1, 2]);
+    expect(handleData).toHaveBeenLastCalledWith(getCached());
+  });
+
+  it("should prepend the previous page", async () => {
+    await infiniteQueryWithCache(params);
+
+    await fetchPreviousPage(params);
+
+    expect(getCached().pageParams).toEqual([0, 1]);
+    expect(getCached().pages[0].cursor).toBe(0);
+  });
+
+  it("should stop when there is no next page", async () => {
+    await infiniteQueryWithCache(params);
+    await fetchNextPage(params);
+    await fetchNextPage(params);
+    expect(hasNextPage(params, getCached())).toBe(false);
+
+    await fetchNextPage(params);
+
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+    expect(getCached().pageParams).toEqual([1, 2, 3]);
+  });
+
+  it("should report whether there are more pages", async () => {
+    await infiniteQueryWithCache(params);
+
+    expect(hasNextPage(params, getCached())).toBe(true);
+    expect(hasPreviousPage(params, getCached())).toBe(true);
+    expect(
+      hasPreviousPage(
+        { ...params, getPreviousPageParam: undefined },
+        getCached()
+      )
+    ).toBe(false);
+  });
+
+  it("should load the first page when fetching the next page on a miss", async () => {
+    await fetchNextPage(params);
+
+    expect(getCached().pageParams).toEqual([1]);
+  });
+
+  it("should report the next page fetching state", async () => {
+    const handleFetchingNextPage = jest.fn();
+    await infiniteQueryWithCache(params);
+
+    await fetchNextPage({
+      ...params,
+      onIsFetchingNextPage: handleFetchingNextPage,
+    });
+
+    expect(handleFetchingNextPage.mock.calls).toEqual([[true], [false]]);
+  });
+
+  it("should fetch the next page after an in-flight revalidation", async () => {
+    const stale = { ...params, cacheExpirationTime: -1 };
+    await infiniteQueryWithCache(stale);
+
+    const revalidation = infiniteQueryWithCache(stale);
+    await fetchNextPage(stale);
+    await revalidation;
+
+    expect(getCached().pageParams).toEqual([1, 2]);
+  });
+
+  it("should serve fresh pages from the cache", async () => {
+    await infiniteQueryWithCache(params);
+    await fetchNextPage(params);
+    fetchPage.mockClear();
+
+    await infiniteQueryWithCache(params);
+
+    expect(fetchPage).not.toHaveBeenCalled();
+    expect(handleData).toHaveBeenLastCalledWith(getCached());
+  });
+
+  it("should refetch every cached page sequentially when stale", async () => {
+    const stale = { ...params, cacheExpirationTime: -1 };
+    await infiniteQueryWithCache(stale);
+    await fetchNextPage(stale);
+    await fetchNextPage(stale);
+    fetchPage.mockClear();
+    version = 2;
+
+    await infiniteQueryWithCache(stale);
+
+    expect(fetchPage.mock.calls.map(([{ pageParam }]) => pageParam)).toEqual([
+      1, 2, 3,
+    ]);
+    expect(getCached().pages.map(({ items }) => items[0])).toEqual([
+      "item 1 v2",
+      "item 2 v2",
+      "item 3 v2",
+    ]);
+  });
+
+  it("should compute the refetched page params from the new pages", async () => {
+    const stale = { ...params, cacheExpirationTime: -1 };
+    await infiniteQueryWithCache(stale);
+    await fetchNextPage(stale);
+    await fetchNextPage(stale);
+
+    // The feed shrank: page 1 is now the last one
+    await infiniteQueryWithCache({ ...stale, getNextPageParam: () => null });
+
+    expect(getCached().pageParams).toEqual([1]);
+  });
+
+  it("should drop the cached pages when the key is invalidated", async () => {
+    await infiniteQueryWithCache(params);
+    await fetchNextPage(params);
+
+    cache.invalidate(["feed"]);
+    await infiniteQueryWithCache(params);
+
+    expect(getCached().pageParams).toEqual([1]);
+  });
+});
@@ -0,0 +1,193 @@
+import {
+  MutateWithCacheParams,
+  mutateWithCache,
+} from "../src/mutate-with-cache";
+import { CacheStoreInMemory } from "../src/cache-store-in-memory";
+import { CacheStoreKeyValue } from "../src/cache-store-key-value";
+import { MapStorageAdapter } from "../src/storage-adapter";
+
+interface Todo {
+  id: number;
+  title: string;
+}
+
+describe("mutateWithCache", () => {
+  const todos: Todo[] = [{ id: 1, title: "existing" }];
+  const newTodo = { title: "new" };
+  const savedTodo = { id: 2, title: "new" };
+  let cache: CacheStoreInMemory;
+  let mutationFn: jest.Mock;
+  let handleSuccess: jest.Mock;
+  let handleError: jest.Mock;
+
+  const addTodo = (
+    params: Partial<MutateWithCacheParams<Todo, { title: string }>> = {}
+  ) =>
+    mutateWithCache<Todo, { title: string }>({
+      cache,
+      variables: newTodo,
+      mutationFn,
+      optimistic: [
+        {
+          key: ["todos"],
+          update: (previous: Todo[] | null, variables) => [
+            ...(previous ?? []),
+            { id: -1, ...variables },
+          ],
+        },
+      ],
+      onSuccess: handleSuccess,
+      onError: handleError,
+      ...params,
+    });
+
+  beforeEach(() => {
+    cache = new CacheStoreInMemory();
+    cache.set({ key: ["todos"], data: todos });
+    mutationFn = jest.fn().mockResolvedValue(savedTodo);
+    handleSuccess = jest.fn();
+    handleError = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    cache.stopGarbageCollector();
+  });
+
+  describe("Optimistic Updates", () => {
+    it("should apply optimistic writes before the mutation runs", async () => {
+      mutationFn.mockImplementation(async () => {
+        expect(cache.get(["todos"]).data).toEqual([
+          ...todos,
+          { id: -1, title: "new" },
+        ]);
+        return savedTodo;
+      });
+
+      await addTodo();
+
+      expect(mutationFn).toHaveBeenCalledWith(newTodo);
+      expect(handleSuccess).toHaveBeenCalledWith(savedTodo, newTodo, undefined);
+    });
+
+    it("should restore the snapshot when the mutation fails", async () => {
+      const mutationError = new Error("Failed to save");
+      mutationFn.mockRejectedValue(mutationError);
+
+      const result = await addTodo();
+
+      expect(result).toBeUndefined();
+      expect(cache.get(["todos"]).data).toEqual(todos);
+      expect(handleError).toHaveBeenCalledWith(
+        mutationError,
+        newTodo,
+        undefined
+      );
+      expect(handleSuccess).not.toHaveBeenCalled();
+    });
+
+    it("should remove optimistic entries that did not exist", async () => {
+      cache.invalidate(["todos"]);
+      mutationFn.mockRejectedValue(new Error("Failed to save"));
+
+      await addTodo();
+
+      expect(cache.get(["todos"]).data).toBeNull();
+    });
+
+    it("should keep the descendants of an optimistic entry that did not exist", async () => {
+      cache.invalidate(["todos"]);
+      cache.set({ key: ["todos", 1], data: todos[0] });
+      mutationFn.mockRejectedValue(new Error("Failed to save"));
+
+      await addTodo();
+
+      expect(cache.get(["todos"]).data).toBeNull();
+      expect(cache.get(["todos", 1]).data).toEqual(todos[0]);
+    });
+
+    it("should restore the timestamp and times of the snapshot", async () => {
+      cache.set({ key: ["todos"], data: todos, staleTime: -1 });
+      mutationFn.mockRejectedValue(new Error("Failed to save"));
+
+      await addTodo();
+
+      expect(cache.get(["todos"])).toEqual({ data: todos, stale: true });
+    });
+
+    it("should snapshot and roll back the optimistic keys without scanning the store", async () => {
+      const storage = new MapStorageAdapter();
+      const store = new CacheStoreKeyValue(storage);
+      store.set({ key: ["todos"], data: todos });
+      store.set({ key: ["users", 1], data: "Ada" });
+      const getAllKeys = jest.spyOn(storage, "getAllKeys");
+      mutationFn.mockRejectedValue(new Error("Failed to save"));
+
+      await addTodo({
+        cache: store,
+        optimistic: [
+          { key: ["todos"], update: () => [] },
+          { key: ["drafts"], update: () => [newTodo] },
+        ],
+      });
+
+      expect(store.get(["todos"]).data).toEqual(todos);
+      expect(store.get(["drafts"]).data).toBeNull();
+      expect(getAllKeys).not.toHaveBeenCalled();
+      store.stopGarbageCollector();
+    });
+
+    it("should throw when no error callback is provided", async () => {
+      const mutationError = new Error("Failed to save");
+      mutationFn.mockRejectedValue(mutationError);
+
+      await expect(addTodo({ onError: undefined })).rejects.toThrow(
+        mutationError
+      );
+      expect(cache.get(["todos"]).data).toEqual(todos);
+    });
+
+    it("should pass the onMutate context to the callbacks", async () => {
+      const mutationError = new Error("Failed to save");
+      mutationFn.mockRejectedValue(mutationError);
+
+      await addTodo({ onMutate: () => "context" });
+
+      expect(handleError).toHaveBeenCalledWith(
+        mutationError,
+        newTodo,
+        "context"
+      );
+    });
+  });
+
+  describe("Cache Updates on Success", () => {
+    it("should update and invalidate the listed keys", async () => {
+      cache.set({ key: ["todos", "count"], data: 1 });
+      cache.set({ key: ["stats"], data: "stats" });
+
+      const result = await addTodo({
+        optimistic: [],
+        updateKeys: [
+          {
+            key: ["todos", "count"],
+            update: (previous: number | null) => (previous ?? 0) + 1,
+          },
+        ],
+        invalidateKeys: [["stats"]],
+      });
+
+      expect(result).toEqual(savedTodo);
+      expect(cache.get(["todos", "count"]).data).toBe(2);
+      expect(cache.get(["stats"]).data).toBeNull();
+    });
+
+    it("should not cache the mutation result as a query", async () => {
+      const setSpy = jest.spyOn(cache, "set");
+
+      await addTodo({ optimistic: [] });
+
+      expect(setSpy).not.toHaveBeenCalled();
+    });
+  });
+});
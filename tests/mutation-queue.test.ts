@@ -0,0 +1,239 @@
+import { MutationQueue, MutationQueueOptions } from "../src/mutation-queue";
+import { OnlineManager, alwaysOnlineSource } from "../src/online-manager";
+import { MapStorageAdapter } from "../src/storage-adapter";
+
+describe("MutationQueue", () => {
+  let storage: MapStorageAdapter;
+  let manager: OnlineManager;
+  let addTodo: jest.Mock;
+  let handleSuccess: jest.Mock;
+  let handleError: jest.Mock;
+  let queue: MutationQueue;
+  let mockLogger: {
+    debug: jest.Mock;
+    info: jest.Mock;
+    warn: jest.Mock;
+    error: jest.Mock;
+  };
+
+  const createQueue = (options?: Partial<MutationQueueOptions>) =>
+    new MutationQueue({
+      storage,
+      mutationFns: { addTodo },
+      onlineManager: manager,
+      onSuccess: handleSuccess,
+      onError: handleError,
+      logger: mockLogger,
+      ...options,
+    });
+
+  beforeEach(() => {
+    storage = new MapStorageAdapter();
+    manager = new OnlineManager(alwaysOnlineSource);
+    addTodo = jest.fn(async (title: string) => ({ title }));
+    handleSuccess = jest.fn();
+    handleError = jest.fn();
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    queue = createQueue();
+  });
+
+  afterEach(() => {
+    queue.stop();
+  });
+
+  it("should send writes right away when online", async () => {
+    queue.enqueue("addTodo", "first");
+    await queue.replay();
+
+    expect(addTodo).toHaveBeenCalledWith("first");
+    expect(handleSuccess).toHaveBeenCalledWith(
+      { title: "first" },
+      expect.objectContaining({ mutationKey: "addTodo", variables: "first" })
+    );
+    expect(queue.getPending()).toEqual([]);
+  });
+
+  it("should hold writes while offline and replay them in order once online", async () => {
+    manager.setOnline(false);
+
+    queue.enqueue("addTodo", "first");
+    queue.enqueue("addTodo", "second");
+    await queue.replay();
+    expect(addTodo).not.toHaveBeenCalled();
+    expect(queue.getPending().map(({ variables }) => variables)).toEqual([
+      "first",
+      "second",
+    ]);
+
+    manager.setOnline(true);
+    await queue.replay();
+
+    expect(addTodo.mock.calls).toEqual([["first"], ["second"]]);
+    expect(queue.getPending()).toEqual([]);
+  });
+
+  it("should send one write at a time", async () => {
+    const order: string[] = [];
+    addTodo.mockImplementation(async (title: string) => {
+      order.push(`start ${title}`);
+      await new Promise((resolve) => setImmediate(resolve));
+      order.push(`end ${title}`);
+    });
+
+    queue.enqueue("addTodo", "first");
+    queue.enqueue("addTodo", "second");
+    await queue.replay();
+
+    expect(order).toEqual([
+      "start first",
+      "end first",
+      "start second",
+      "end second",
+    ]);
+  });
+
+  it("should replay the writes persisted by a previous session", async () => {
+    manager.setOnline(false);
+    queue.enqueue("addTodo", "first");
+    queue.stop();
+
+    manager.setOnline(true);
+    queue = createQueue();
+    await queue.replay();
+
+    expect(addTodo).toHaveBeenCalledWith("first");
+    expect(queue.getPending()).toEqual([]);
+  });
+
+  it("should keep a write that fails while offline at the head of the queue", async () => {
+    addTodo.mockImplementationOnce(async () => {
+      manager.setOnline(false);
+      throw new Error("Network request failed");
+    });
+
+    queue.enqueue("addTodo", "first");
+    await queue.replay();
+
+    expect(handleError).not.toHaveBeenCalled();
+    expect(queue.getPending()).toHaveLength(1);
+
+    manager.setOnline(true);
+    await queue.replay();
+
+    expect(addTodo).toHaveBeenCalledTimes(2);
+    expect(queue.getPending()).toEqual([]);
+  });
+
+  it("should keep and report a write that fails while online", async () => {
+    const mutationError = new Error("Internal Server Error");
+    addTodo.mockRejectedValueOnce(mutationError);
+
+    queue.enqueue("addTodo", "first");
+    queue.enqueue("addTodo", "second");
+    await queue.replay();
+
+    expect(handleError).toHaveBeenCalledWith(
+      mutationError,
+      expect.objectContaining({ variables: "first" })
+    );
+    expect(addTodo).toHaveBeenCalledTimes(1);
+    expect(queue.getPending().map(({ variables }) => variables)).toEqual([
+      "first",
+      "second",
+    ]);
+
+    await queue.replay();
+
+    expect(addTodo.mock.calls).toEqual([["first"], ["first"], ["second"]]);
+    expect(queue.getPending()).toEqual([]);
+  });
+
+  it("should drop a write when shouldDrop returns true", async () => {
+    const mutationError = new Error("Validation failed");
+    const shouldDrop = jest.fn(() => true);
+    addTodo.mockRejectedValueOnce(mutationError);
+    queue.stop();
+    queue = createQueue({ shouldDrop });
+    await queue.replay();
+
+    queue.enqueue("addTodo", "first");
+    queue.enqueue("addTodo", "second");
+    await queue.replay();
+
+    expect(shouldDrop).toHaveBeenCalledWith(
+      mutationError,
+      expect.objectContaining({ variables: "first" })
+    );
+    expect(handleError).toHaveBeenCalledTimes(1);
+    expect(addTodo).toHaveBeenLastCalledWith("second");
+    expect(queue.getPending()).toEqual([]);
+  });
+
+  it("should retry a failing write according to retry", async () => {
+    addTodo.mockRejectedValueOnce(new Error("Timeout"));
+    queue.stop();
+    queue = createQueue({ retry: 1, retryDelay: () => 0 });
+    await queue.replay();
+
+    queue.enqueue("addTodo", "first");
+    await queue.replay();
+
+    expect(addTodo).toHaveBeenCalledTimes(2);
+    expect(handleError).not.toHaveBeenCalled();
+    expect(queue.getPending()).toEqual([]);
+  });
+
+  it("should keep replaying when a callback throws", async () => {
+    handleSuccess.mockImplementationOnce(() => {
+      throw new Error("Callback failed");
+    });
+
+    queue.enqueue("addTodo", "first");
+    queue.enqueue("addTodo", "second");
+    await queue.replay();
+
+    expect(addTodo.mock.calls).toEqual([["first"], ["second"]]);
+    expect(queue.getPending()).toEqual([]);
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ event: "callbackError", callback: "onSuccess" })
+    );
+  });
+
+  it("should drop and report a write without a mutation function", async () => {
+    queue.enqueue("removeTodo", 1);
+    await queue.replay();
+
+    expect(handleError).toHaveBeenCalledWith(
+      expect.any(Error),
+      expect.objectContaining({ mutationKey: "removeTodo" })
+    );
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ event: "unknownMutation" })
+    );
+  });
+
+  it("should persist variables with the serializer", () => {
+    manager.setOnline(false);
+
+    queue.enqueue("addTodo", { dueAt: new Date("2024-01-01T00:00:00.000Z") });
+
+    expect(queue.getPending()[0].variables).toEqual({
+      dueAt: new Date("2024-01-01T00:00:00.000Z"),
+    });
+  });
+
+  it("should discard a corrupt queue", () => {
+    storage.set("mutation-queue", "{not json");
+
+    expect(queue.getPending()).toEqual([]);
+    expect(storage.getString("mutation-queue")).toBeUndefined();
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ event: "corruptQueue" })
+    );
+  });
+});
@@ -0,0 +1,266 @@
+import { QueryClient } from "../src/query-client";
+import { CacheStoreInMemory } from "../src/cache-store-in-memory";
+
+describe("QueryClient", () => {
+  const mockQueryResult = { title: "new entry" };
+  let cache: CacheStoreInMemory;
+  let client: QueryClient;
+  let fetchData: jest.Mock;
+  let handleError: jest.Mock;
+  let handleSuccess: jest.Mock;
+
+  beforeEach(() => {
+    cache = new CacheStoreInMemory();
+    fetchData = jest.fn().mockResolvedValue(mockQueryResult);
+    handleError = jest.fn();
+    handleSuccess = jest.fn();
+
+    client = new QueryClient({
+      cache,
+      defaultOptions: { cacheExpirationTime: 1000 },
+      queryDefaults: [
+        { queryKey: ["users"], options: { cacheExpirationTime: 5000 } },
+      ],
+      onError: handleError,
+      onSuccess: handleSuccess,
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.useRealTimers();
+    cache.stopGarbageCollector();
+  });
+
+  describe("Default Options", () => {
+    it("should merge client and prefix defaults", () => {
+      client.setQueryDefaults(["users", "admins"], { retry: 2 });
+
+      expect(client.getQueryDefaults(["todos"])).toEqual({
+        cacheExpirationTime: 1000,
+      });
+      expect(client.getQueryDefaults(["users", "admins", 1])).toEqual({
+        cacheExpirationTime: 5000,
+        retry: 2,
+      });
+    });
+
+    it("should replace the defaults of an existing prefix", () => {
+      client.setQueryDefaults(["users"], { cacheExpirationTime: 100 });
+
+      expect(client.getQueryDefaults(["users"])).toEqual({
+        cacheExpirationTime: 100,
+      });
+    });
+
+    it("should apply prefix defaults to fetched entries", async () => {
+      jest.useFakeTimers();
+      await client.fetchQuery({ queryKey: ["users", 1], queryFn: fetchData });
+
+      jest.advanceTimersByTime(2000);
+      expect(cache.get(["users", 1]).stale).toBe(false);
+
+      jest.advanceTimersByTime(3001);
+      expect(cache.get(["users", 1]).stale).toBe(true);
+    });
+  });
+
+  describe("query", () => {
+    it("should emit fetched data and call the global success hook", async () => {
+      const handleData = jest.fn();
+
+      await client.query({
+        queryKey: ["todos"],
+        queryFn: fetchData,
+        onData: handleData,
+      });
+
+      expect(handleData).toHaveBeenCalledWith(mockQueryResult);
+      expect(handleSuccess).toHaveBeenCalledWith(mockQueryResult, ["todos"]);
+    });
+
+    it("should report failures to both error hooks", async () => {
+      const queryError = new Error("Failed to fetch data");
+      const handleQueryError = jest.fn();
+      fetchData.mockRejectedValue(queryError);
+
+      await client.query({
+        queryKey: ["todos"],
+        queryFn: fetchData,
+        onData: jest.fn(),
+        onError: handleQueryError,
+      });
+
+      expect(handleQueryError).toHaveBeenCalledWith(queryError);
+      expect(handleError).toHaveBeenCalledWith(queryError, ["todos"]);
+      expect(handleSuccess).not.toHaveBeenCalled();
+    });
+
+    it("should not call the global success hook for a cancelled fetch", async () => {
+      const controller = new AbortController();
+      fetchData.mockImplementation(async () => {
+        controller.abort();
+        return mockQueryResult;
+      });
+
+      await client.query({
+        queryKey: ["todos"],
+        queryFn: fetchData,
+        onData: jest.fn(),
+        onError: jest.fn(),
+        signal: controller.signal,
+      });
+
+      expect(handleSuccess).not.toHaveBeenCalled();
+      expect(client.getQueryData(["todos"])).toBeNull();
+    });
+  });
+
+  describe("fetchQuery", () => {
+    it("should resolve with fetched data and cache it", async () => {
+      const data = await client.fetchQuery({
+        queryKey: ["todos"],
+        queryFn: fetchData,
+      });
+
+      expect(data).toEqual(mockQueryResult);
+      expect(client.getQueryData(["todos"])).toEqual(mockQueryResult);
+      expect(handleSuccess).toHaveBeenCalledWith(mockQueryResult, ["todos"]);
+    });
+
+    it("should resolve with fresh cached data without fetching", async () => {
+      client.setQueryData(["todos"], { title: "cached" });
+
+      const data = await client.fetchQuery({
+        queryKey: ["todos"],
+        queryFn: fetchData,
+      });
+
+      expect(data).toEqual({ title: "cached" });
+      expect(fetchData).not.toHaveBeenCalled();
+      expect(handleSuccess).not.toHaveBeenCalled();
+    });
+
+    it("should resolve with the fetched data when forced and unchanged", async () => {
+      client.setQueryData(["todos"], mockQueryResult);
+
+      const data = await client.fetchQuery({
+        queryKey: ["todos"],
+        queryFn: fetchData,
+        force: true,
+      });
+
+      expect(fetchData).toHaveBeenCalledTimes(1);
+      expect(data).toEqual(mockQueryResult);
+    });
+
+    it("should not fail or retry when the global success hook throws", async () => {
+      handleSuccess.mockImplementation(() => {
+        throw new Error("Hook failed");
+      });
+
+      const data = await client.fetchQuery({
+        queryKey: ["todos"],
+        queryFn: fetchData,
+        retry: 2,
+      });
+
+      expect(data).toEqual(mockQueryResult);
+      expect(fetchData).toHaveBeenCalledTimes(1);
+      expect(client.getQueryData(["todos"])).toEqual(mockQueryResult);
+    });
+
+    it("should reject and call the global error hook", async () => {
+      const queryError = new Error("Failed to fetch data");
+      fetchData.mockRejectedValue(queryError);
+
+      await expect(
+        client.fetchQuery({ queryKey: ["todos"], queryFn: fetchData })
+      ).rejects.toThrow(queryError);
+      expect(handleError).toHaveBeenCalledWith(queryError, ["todos"]);
+    });
+  });
+
+  describe("ensureQueryData", () => {
+    it("should resolve with stale data and revalidate it in the background", async () => {
+      client.setQueryData(["todos"], { title: "cached" }, { staleTime: -1 });
+
+      const data = await client.ensureQueryData({
+        queryKey: ["todos"],
+        queryFn: fetchData,
+      });
+
+      expect(data).toEqual({ title: "cached" });
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(fetchData).toHaveBeenCalledTimes(1);
+      expect(client.getQueryData(["todos"])).toEqual(mockQueryResult);
+      expect(handleSuccess).toHaveBeenCalledWith(mockQueryResult, ["todos"]);
+    });
+
+    it("should report background failures to the global error hook", async () => {
+      const queryError = new Error("Failed to fetch data");
+      const handleBackgroundError = jest.fn();
+      fetchData.mockRejectedValue(queryError);
+      client.setQueryData(["todos"], { title: "cached" }, { staleTime: -1 });
+
+      await client.ensureQueryData({
+        queryKey: ["todos"],
+        queryFn: fetchData,
+        onError: handleBackgroundError,
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(handleError).toHaveBeenCalledWith(queryError, ["todos"]);
+      expect(handleBackgroundError).toHaveBeenCalledWith(queryError);
+    });
+  });
+
+  describe("prefetchQuery", () => {
+    it("should fill the cache", async () => {
+      await client.prefetchQuery({ queryKey: ["todos"], queryFn: fetchData });
+
+      expect(client.getQueryData(["todos"])).toEqual(mockQueryResult);
+    });
+
+    it("should not reject on failure", async () => {
+      const queryError = new Error("Failed to fetch data");
+      fetchData.mockRejectedValue(queryError);
+
+      await expect(
+        client.prefetchQuery({ queryKey: ["todos"], queryFn: fetchData })
+      ).resolves.toBeUndefined();
+      expect(handleError).toHaveBeenCalledWith(queryError, ["todos"]);
+    });
+  });
+
+  describe("Cache Operations", () => {
+    it("should update data with an updater function", () => {
+      client.setQueryData(["count"], 1);
+      client.setQueryData<number>(["count"], (previous) => (previous ?? 0) + 1);
+
+      expect(client.getQueryData(["count"])).toBe(2);
+    });
+
+    it("should invalidate a key and its descendants", () => {
+      client.setQueryData(["users", 1], "user 1");
+      client.setQueryData(["users", 2], "user 2");
+      client.setQueryData(["todos"], "todos");
+
+      client.invalidateQueries(["users"]);
+
+      expect(client.getQueryData(["users", 1])).toBeNull();
+      expect(client.getQueryData(["users", 2])).toBeNull();
+      expect(client.getQueryData(["todos"])).toBe("todos");
+    });
+
+    it("should clear every entry", () => {
+      client.setQueryData(["users", 1], "user 1");
+      client.setQueryData(["todos"], "todos");
+
+      client.clear();
+
+      expect(client.getQueryData(["users", 1])).toBeNull();
+      expect(client.getQueryData(["todos"])).toBeNull();
+    });
+  });
+});
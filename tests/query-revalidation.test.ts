@@ -0,0 +1,262 @@
+import { CacheStoreInMemory } from "../src/cache-store-in-memory";
+import { FocusManager, focusManager } from "../src/focus-manager";
+import {
+  OnlineManager,
+  createNavigatorOnlineSource,
+  createNetInfoOnlineSource,
+  onlineManager,
+} from "../src/online-manager";
+import {
+  ActiveQuery,
+  revalidateActiveQueries,
+  trackActiveQuery,
+} from "../src/query-revalidation";
+import {
+  VisibilitySource,
+  createAppStateVisibilitySource,
+} from "../src/visibility-source";
+
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * Visibility source toggled by the tests.
+ */
+class ManualVisibilitySource implements VisibilitySource {
+  private listeners = new Set<(isVisible: boolean) => void>();
+
+  constructor(private visible = true) {}
+
+  isVisible() {
+    return this.visible;
+  }
+
+  subscribe(listener: (isVisible: boolean) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  setVisible(visible: boolean) {
+    this.visible = visible;
+    this.listeners.forEach((listener) => listener(visible));
+  }
+
+  get listenerCount() {
+    return this.listeners.size;
+  }
+}
+
+describe("FocusManager", () => {
+  let source: ManualVisibilitySource;
+  let manager: FocusManager;
+  let listener: jest.Mock;
+
+  beforeEach(() => {
+    source = new ManualVisibilitySource();
+    manager = new FocusManager(source);
+    listener = jest.fn();
+  });
+
+  it("should read the focus from its source", () => {
+    expect(manager.isFocused()).toBe(true);
+
+    source.setVisible(false);
+
+    expect(manager.isFocused()).toBe(false);
+  });
+
+  it("should only notify actual changes", () => {
+    manager.subscribe(listener);
+
+    source.setVisible(true);
+    source.setVisible(false);
+    source.setVisible(false);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(false);
+  });
+
+  it("should only listen to its source while subscribed", () => {
+    const unsubscribe = manager.subscribe(listener);
+    expect(source.listenerCount).toBe(1);
+
+    unsubscribe();
+
+    expect(source.listenerCount).toBe(0);
+  });
+
+  it("should let the focus be set manually", () => {
+    manager.subscribe(listener);
+
+    manager.setFocused(false);
+    source.setVisible(true);
+    expect(manager.isFocused()).toBe(false);
+
+    manager.setFocused(undefined);
+    expect(manager.isFocused()).toBe(true);
+    expect(listener.mock.calls).toEqual([[false], [true]]);
+  });
+
+  it("should move its listeners to a new source", () => {
+    const other = new ManualVisibilitySource(false);
+    manager.subscribe(listener);
+
+    manager.setEventSource(other);
+
+    expect(source.listenerCount).toBe(0);
+    expect(other.listenerCount).toBe(1);
+    expect(listener).toHaveBeenCalledWith(false);
+  });
+
+  it("should adapt React Native's AppState", () => {
+    let emit: (state: string) => void = () => undefined;
+    const remove = jest.fn();
+    const appState = {
+      currentState: "active",
+      addEventListener: (_type: "change", next: (state: string) => void) => {
+        emit = next;
+        return { remove };
+      },
+    };
+    manager.setEventSource(createAppStateVisibilitySource(appState));
+    const unsubscribe = manager.subscribe(listener);
+
+    appState.currentState = "background";
+    emit("background");
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledWith(false);
+    expect(remove).toHaveBeenCalled();
+  });
+});
+
+describe("OnlineManager", () => {
+  let listener: jest.Mock;
+
+  beforeEach(() => {
+    listener = jest.fn();
+  });
+
+  it("should follow the window online and offline events", () => {
+    const navigator = { onLine: true };
+    const target = Object.assign(new EventTarget(), {
+      navigator,
+    }) as unknown as Window;
+    const manager = new OnlineManager(createNavigatorOnlineSource(target));
+    manager.subscribe(listener);
+
+    navigator.onLine = false;
+    target.dispatchEvent(new Event("offline"));
+
+    expect(manager.isOnline()).toBe(false);
+    expect(listener).toHaveBeenCalledWith(false);
+  });
+
+  it("should adapt NetInfo", () => {
+    let emit: (state: { isConnected: boolean | null }) => void = () =>
+      undefined;
+    const manager = new OnlineManager(
+      createNetInfoOnlineSource({
+        addEventListener: (next) => {
+          emit = next;
+          return () => undefined;
+        },
+      })
+    );
+    manager.subscribe(listener);
+
+    emit({ isConnected: false });
+    expect(manager.isOnline()).toBe(false);
+
+    emit({ isConnected: null });
+    expect(manager.isOnline()).toBe(true);
+    expect(listener.mock.calls).toEqual([[false], [true]]);
+  });
+
+  it("should let the connectivity be set manually", () => {
+    const manager = new OnlineManager();
+    manager.subscribe(listener);
+
+    manager.setOnline(false);
+
+    expect(manager.isOnline()).toBe(false);
+    expect(listener).toHaveBeenCalledWith(false);
+  });
+});
+
+describe("Active query revalidation", () => {
+  let cache: CacheStoreInMemory;
+  let untrack: (() => void)[];
+
+  const track = (query: Partial<ActiveQuery> = {}) => {
+    const revalidate = jest.fn();
+    untrack.push(
+      trackActiveQuery({ cache, queryKey: ["test"], revalidate, ...query })
+    );
+    return revalidate;
+  };
+
+  beforeEach(() => {
+    cache = new CacheStoreInMemory();
+    untrack = [];
+  });
+
+  afterEach(() => {
+    untrack.forEach((fn) => fn());
+    focusManager.setFocused(undefined);
+    onlineManager.setOnline(undefined);
+    cache.stopGarbageCollector();
+  });
+
+  it("should revalidate stale queries when the app regains focus", async () => {
+    cache.set({ key: ["test"], data: "stale", staleTime: -1 });
+    const revalidate = track();
+
+    focusManager.setFocused(false);
+    focusManager.setFocused(true);
+    await flushPromises();
+
+    expect(revalidate).toHaveBeenCalledTimes(1);
+  });
+
+  it("should revalidate stale queries when the device comes back online", async () => {
+    const revalidate = track();
+
+    onlineManager.setOnline(false);
+    onlineManager.setOnline(true);
+    await flushPromises();
+
+    expect(revalidate).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not revalidate fresh queries", async () => {
+    cache.set({ key: ["test"], data: "fresh" });
+    const revalidate = track();
+
+    await revalidateActiveQueries("focus");
+
+    expect(revalidate).not.toHaveBeenCalled();
+  });
+
+  it("should respect the per-query options", async () => {
+    const onFocus = track({ refetchOnReconnect: false });
+    const onReconnect = track({ refetchOnWindowFocus: false });
+
+    await revalidateActiveQueries("focus");
+
+    expect(onFocus).toHaveBeenCalledTimes(1);
+    expect(onReconnect).not.toHaveBeenCalled();
+  });
+
+  it("should not revalidate queries that are no longer active", async () => {
+    const revalidate = track();
+    untrack.pop()?.();
+
+    focusManager.setFocused(false);
+    focusManager.setFocused(true);
+    await flushPromises();
+
+    expect(revalidate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,72 @@
+import { replaceEqualDeep } from "../src/query-structural-sharing";
+
+describe("replaceEqualDeep", () => {
+  it("should return the previous value when deep-equal", () => {
+    const previous = { todos: [{ id: 1, done: false }], total: 1 };
+    const next = { todos: [{ id: 1, done: false }], total: 1 };
+
+    expect(replaceEqualDeep(previous, next)).toBe(previous);
+  });
+
+  it("should keep the references of unchanged subtrees", () => {
+    const previous = {
+      todos: [
+        { id: 1, done: false },
+        { id: 2, done: false },
+      ],
+      user: { name: "Ada" },
+    };
+    const next = {
+      todos: [
+        { id: 1, done: false },
+        { id: 2, done: true },
+      ],
+      user: { name: "Ada" },
+    };
+
+    const result = replaceEqualDeep(previous, next);
+
+    expect(result).toEqual(next);
+    expect(result).not.toBe(previous);
+    expect(result.user).toBe(previous.user);
+    expect(result.todos[0]).toBe(previous.todos[0]);
+    expect(result.todos).not.toBe(previous.todos);
+    expect(result.todos[1]).not.toBe(previous.todos[1]);
+  });
+
+  it("should detect added and removed properties", () => {
+    const previous: Record<string, number> = { a: 1, b: 2 };
+
+    expect(replaceEqualDeep(previous, { a: 1 })).toEqual({ a: 1 });
+    expect(replaceEqualDeep(previous, { a: 1, b: 2, c: 3 })).toEqual({
+      a: 1,
+      b: 2,
+      c: 3,
+    });
+    expect(replaceEqualDeep({ a: undefined }, { b: undefined })).toEqual({
+      b: undefined,
+    });
+  });
+
+  it("should handle arrays of different lengths", () => {
+    const item = { id: 1 };
+
+    const result = replaceEqualDeep([item], [{ id: 1 }, { id: 2 }]);
+
+    expect(result).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(result[0]).toBe(item);
+  });
+
+  it("should take non-plain values from the new value", () => {
+    const previous = { at: new Date(0) };
+    const next = { at: new Date(0) };
+
+    expect(replaceEqualDeep(previous, next).at).toBe(next.at);
+  });
+
+  it("should return the new value when the types differ", () => {
+    expect(replaceEqualDeep({ a: 1 }, [1])).toEqual([1]);
+    expect(replaceEqualDeep(null, { a: 1 })).toEqual({ a: 1 });
+    expect(replaceEqualDeep("a", "b")).toBe("b");
+  });
+});
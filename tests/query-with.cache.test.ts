@@ -1,5 +1,67 @@
-import { queryWithCache } from "../src/query-with-cache";
+import {
+  ensureQueryData,
+  fetchWithCache,
+  isQueryFetching,
+  queryWithCache,
+} from "../src/query-with-cache";
 import { CacheStoreInMemory } from "../src/cache-store-in-memory";
+import { defaultRetryDelay } from "../src/query-retry";
+import { CancelledError } from "../src/query-errors";
+import { onlineManager } from "../src/online-manager";
+import {
+  AsyncCacheStore,
+  CacheEntryPredicate,
+  CacheKey,
+  CacheKeyPattern,
+  CacheListener,
+  DehydrateOptions,
+  DehydratedCache,
+  SetCacheParams,
+} from "../src/cache.types";
+
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * Promise-based store backed by CacheStoreInMemory, resolving on the next tick.
+ */
+class DelayedCacheStore implements AsyncCacheStore {
+  constructor(public store: CacheStoreInMemory) {}
+
+  private delay<R>(fn: () => R): Promise<R> {
+    return new Promise((resolve) => setImmediate(() => resolve(fn())));
+  }
+
+  set<T>(params: SetCacheParams<T>) {
+    return this.delay(() => this.store.set(params));
+  }
+  get<T>(key: CacheKey) {
+    return this.delay(() => this.store.get<T>(key));
+  }
+  invalidate(key: CacheKeyPattern) {
+    return this.delay(() => this.store.invalidate(key));
+  }
+  invalidateWhere(predicate: CacheEntryPredicate) {
+    return this.delay(() => this.store.invalidateWhere(predicate));
+  }
+  clear() {
+    return this.delay(() => this.store.clear());
+  }
+  cleanUp() {
+    return this.delay(() => this.store.cleanUp());
+  }
+  dehydrate(options?: DehydrateOptions) {
+    return this.delay(() => this.store.dehydrate(options));
+  }
+  hydrate(snapshot: DehydratedCache) {
+    return this.delay(() => this.store.hydrate(snapshot));
+  }
+  stopGarbageCollector() {
+    this.store.stopGarbageCollector();
+  }
+  subscribe(key: CacheKey, listener: CacheListener) {
+    return this.store.subscribe(key, listener);
+  }
+}
 
 describe("queryWithCache", () => {
   const mockQueryResult = { title: "new entry" };
@@ -20,6 +82,7 @@ describe("queryWithCache", () => {
 
   afterEach(() => {
     jest.clearAllMocks();
+    jest.useRealTimers();
     cache.stopGarbageCollector();
   });
 
@@ -85,6 +148,22 @@ describe("queryWithCache", () => {
     it("should not trigger loading state for fresh cache", () => {
       expect(handleLoading).not.toHaveBeenCalled();
     });
+
+    it("should fetch without emitting the cached data when forced", async () => {
+      handleData.mockClear();
+
+      await queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        cache,
+        force: true,
+      });
+
+      expect(fetchData).toHaveBeenCalledTimes(1);
+      expect(handleData).toHaveBeenCalledTimes(1);
+      expect(handleData).toHaveBeenCalledWith(mockQueryResult);
+    });
   });
 
   describe("Stale Cache Behavior", () => {
@@ -127,6 +206,75 @@ describe("queryWithCache", () => {
     });
   });
 
+  describe("Structural Sharing", () => {
+    const staleData = {
+      todos: [
+        { id: 1, title: "first" },
+        { id: 2, title: "second" },
+      ],
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      cache.set({ key: ["test"], data: staleData, staleTime: 1000 });
+      jest.advanceTimersByTime(2000);
+
+      fetchData.mockResolvedValue({
+        todos: [
+          { id: 1, title: "first" },
+          { id: 2, title: "updated" },
+        ],
+      });
+    });
+
+    it("should keep the references of unchanged data", async () => {
+      await queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        cache,
+      });
+
+      const result = handleData.mock.calls[1][0];
+      expect(result.todos[0]).toBe(staleData.todos[0]);
+      expect(result.todos[1]).toEqual({ id: 2, title: "updated" });
+      expect(cache.get(["test"]).data).toBe(result);
+    });
+
+    it("should not share references when disabled", async () => {
+      await queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        cache,
+        structuralSharing: false,
+      });
+
+      const result = handleData.mock.calls[1][0];
+      expect(result.todos[0]).not.toBe(staleData.todos[0]);
+      expect(result.todos[0]).toEqual(staleData.todos[0]);
+    });
+
+    it("should store the previous data when nothing changed", async () => {
+      fetchData.mockResolvedValue({
+        todos: [
+          { id: 1, title: "first" },
+          { id: 2, title: "second" },
+        ],
+      });
+
+      await queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        cache,
+      });
+
+      expect(handleData).toHaveBeenCalledTimes(1);
+      expect(cache.get(["test"]).data).toBe(staleData);
+    });
+  });
+
   describe("Error Handling", () => {
     const queryError = new Error("Failed to fetch data");
 
@@ -200,6 +348,828 @@ describe("queryWithCache", () => {
     });
   });
 
+  describe("Async Cache Store", () => {
+    let asyncCache: DelayedCacheStore;
+
+    beforeEach(() => {
+      asyncCache = new DelayedCacheStore(cache);
+    });
+
+    it("should fetch and store data on a miss", async () => {
+      await queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        onIsFetching: handleLoading,
+        cache: asyncCache,
+      });
+
+      expect(handleData).toHaveBeenCalledWith(mockQueryResult);
+      expect(handleLoading).toHaveBeenNthCalledWith(1, true);
+      expect(handleLoading).toHaveBeenNthCalledWith(2, false);
+      expect(await asyncCache.get(["test"])).toEqual({
+        data: mockQueryResult,
+        stale: false,
+      });
+    });
+
+    it("should report a failed cache read to onError", async () => {
+      const readError = new Error("Failed to read");
+      jest.spyOn(asyncCache, "get").mockRejectedValue(readError);
+
+      await queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        onError: handleError,
+        onIsFetching: handleLoading,
+        cache: asyncCache,
+      });
+
+      expect(handleError).toHaveBeenCalledWith(readError);
+      expect(handleLoading).not.toHaveBeenCalled();
+      expect(fetchData).not.toHaveBeenCalled();
+    });
+
+    it("should reject fetchWithCache and ensureQueryData on a failed cache read", async () => {
+      const readError = new Error("Failed to read");
+      jest.spyOn(asyncCache, "get").mockRejectedValue(readError);
+      const params = {
+        queryKey: ["test"],
+        queryFn: fetchData,
+        cache: asyncCache,
+      };
+
+      await expect(fetchWithCache(params)).rejects.toThrow(readError);
+      await expect(ensureQueryData(params)).rejects.toThrow(readError);
+    });
+
+    it("should return fresh data without fetching", async () => {
+      await asyncCache.set({ key: ["test"], data: { title: "cached" } });
+
+      await queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        cache: asyncCache,
+      });
+
+      expect(fetchData).not.toHaveBeenCalled();
+      expect(handleData).toHaveBeenCalledWith({ title: "cached" });
+    });
+
+    it("should return stale data then revalidate", async () => {
+      jest.useFakeTimers({ doNotFake: ["setImmediate"] });
+      await asyncCache.set({
+        key: ["test"],
+        data: { title: "cached" },
+        staleTime: 1000,
+      });
+      jest.advanceTimersByTime(2000);
+
+      await queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        cache: asyncCache,
+      });
+
+      expect(handleData).toHaveBeenNthCalledWith(1, { title: "cached" });
+      expect(handleData).toHaveBeenNthCalledWith(2, mockQueryResult);
+      expect((await asyncCache.get(["test"])).stale).toBe(false);
+    });
+
+    it("should share a single fetch between concurrent callers", async () => {
+      await Promise.all([
+        queryWithCache({
+          queryKey: ["test"],
+          queryFn: fetchData,
+          onData: handleData,
+          cache: asyncCache,
+        }),
+        queryWithCache({
+          queryKey: ["test"],
+          queryFn: fetchData,
+          onData: handleData,
+          cache: asyncCache,
+        }),
+      ]);
+
+      expect(fetchData).toHaveBeenCalledTimes(1);
+      expect(handleData).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("Retry Behavior", () => {
+    const queryError = new Error("Failed to fetch data");
+    let handleRetry: jest.Mock;
+
+    beforeEach(() => {
+      handleRetry = jest.fn();
+    });
+
+    it("should retry up to the given count and succeed", async () => {
+      fetchData
+        .mockRejectedValueOnce(queryError)
+        .mockRejectedValueOnce(queryError)
+        .mockResolvedValueOnce(mockQueryResult);
+
+      await queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        onIsFetching: handleLoading,
+        onError: handleError,
+        onRetry: handleRetry,
+        retry: 3,
+        retryDelay: () => 0,
+        cache,
+      });
+
+      expect(fetchData).toHaveBeenCalledTimes(3);
+      expect(handleRetry).toHaveBeenCalledTimes(2);
+      expect(handleRetry).toHaveBeenNthCalledWith(1, 1, queryError);
+      expect(handleRetry).toHaveBeenNthCalledWith(2, 2, queryError);
+      expect(handleData).toHaveBeenCalledWith(mockQueryResult);
+      expect(handleError).not.toHaveBeenCalled();
+      expect(handleLoading).toHaveBeenCalledTimes(2);
+      expect(handleLoading).toHaveBeenNthCalledWith(1, true);
+      expect(handleLoading).toHaveBeenNthCalledWith(2, false);
+    });
+
+    it("should report only the final failure", async () => {
+      fetchData.mockRejectedValue(queryError);
+
+      await queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        onError: handleError,
+        onRetry: handleRetry,
+        retry: 2,
+        retryDelay: () => 0,
+        cache,
+      });
+
+      expect(fetchData).toHaveBeenCalledTimes(3);
+      expect(handleRetry).toHaveBeenCalledTimes(2);
+      expect(handleError).toHaveBeenCalledTimes(1);
+      expect(handleError).toHaveBeenCalledWith(queryError);
+    });
+
+    it("should consult a retry predicate", async () => {
+      fetchData.mockRejectedValue(queryError);
+      const retry = jest.fn((failureCount: number) => failureCount < 2);
+
+      await queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        onError: handleError,
+        retry,
+        retryDelay: () => 0,
+        cache,
+      });
+
+      expect(fetchData).toHaveBeenCalledTimes(2);
+      expect(retry).toHaveBeenCalledWith(1, queryError);
+      expect(retry).toHaveBeenCalledWith(2, queryError);
+    });
+
+    it("should not retry by default", async () => {
+      fetchData.mockRejectedValue(queryError);
+
+      await queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        onError: handleError,
+        cache,
+      });
+
+      expect(fetchData).toHaveBeenCalledTimes(1);
+    });
+
+    it("should back off exponentially with jitter by default", () => {
+      jest.spyOn(Math, "random").mockReturnValue(0);
+      expect(defaultRetryDelay(1, queryError)).toBe(500);
+      expect(defaultRetryDelay(3, queryError)).toBe(2000);
+
+      jest.spyOn(Math, "random").mockReturnValue(1);
+      expect(defaultRetryDelay(3, queryError)).toBe(4000);
+      expect(defaultRetryDelay(20, queryError)).toBe(30000);
+
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe("Cancellation", () => {
+    let resolveQuery: (value: unknown) => void;
+
+    beforeEach(() => {
+      fetchData.mockImplementation(
+        () =>
+          new Promise((resolve) => {
+            resolveQuery = resolve;
+          })
+      );
+    });
+
+    it("should pass an abort signal to the query function", async () => {
+      const controller = new AbortController();
+      const queryPromise = queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        signal: controller.signal,
+        cache,
+      });
+
+      await flushPromises();
+      expect(fetchData).toHaveBeenCalledWith({
+        signal: expect.any(AbortSignal),
+      });
+
+      resolveQuery(mockQueryResult);
+      await queryPromise;
+    });
+
+    it("should skip onData and the cache write when aborted", async () => {
+      const controller = new AbortController();
+      const queryPromise = queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        onIsFetching: handleLoading,
+        onError: handleError,
+        signal: controller.signal,
+        cache,
+      });
+
+      await flushPromises();
+      const { signal } = fetchData.mock.calls[0][0];
+      controller.abort("unmounted");
+      resolveQuery(mockQueryResult);
+      await queryPromise;
+
+      expect(signal.aborted).toBe(true);
+      expect(handleData).not.toHaveBeenCalled();
+      expect(cache.get(["test"]).data).toBeNull();
+      expect(handleLoading).toHaveBeenNthCalledWith(1, true);
+      expect(handleLoading).toHaveBeenNthCalledWith(2, false);
+      expect(handleError).toHaveBeenCalledWith(expect.any(CancelledError));
+      expect(handleError.mock.calls[0][0].reason).toBe("unmounted");
+    });
+
+    it("should reject with a cancellation error without an error callback", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const queryPromise = queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        signal: controller.signal,
+        cache,
+      });
+
+      await expect(queryPromise).rejects.toBeInstanceOf(CancelledError);
+      expect(fetchData).not.toHaveBeenCalled();
+    });
+
+    it("should keep a shared fetch alive for callers that did not abort", async () => {
+      const controller = new AbortController();
+      const otherData = jest.fn();
+
+      const abortedQuery = queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        onError: handleError,
+        signal: controller.signal,
+        cache,
+      });
+      const otherQuery = queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: otherData,
+        cache,
+      });
+
+      await flushPromises();
+      controller.abort();
+      resolveQuery(mockQueryResult);
+      await Promise.all([abortedQuery, otherQuery]);
+
+      expect(fetchData).toHaveBeenCalledTimes(1);
+      expect(handleData).not.toHaveBeenCalled();
+      expect(handleError).toHaveBeenCalledWith(expect.any(CancelledError));
+      expect(otherData).toHaveBeenCalledWith(mockQueryResult);
+      expect(cache.get(["test"]).data).toEqual(mockQueryResult);
+    });
+
+    it("should stop retrying once aborted", async () => {
+      const controller = new AbortController();
+      fetchData.mockRejectedValue(new Error("Failed to fetch data"));
+
+      await queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        onError: handleError,
+        onRetry: () => controller.abort(),
+        retry: 3,
+        retryDelay: () => 1000,
+        signal: controller.signal,
+        cache,
+      });
+
+      expect(fetchData).toHaveBeenCalledTimes(1);
+      expect(handleError).toHaveBeenCalledWith(expect.any(CancelledError));
+    });
+  });
+
+  describe("Concurrent Queries", () => {
+    it("should report whether a fetch is in flight for a key", async () => {
+      let resolveQuery: (value: unknown) => void = () => undefined;
+      fetchData.mockReturnValue(
+        new Promise((resolve) => {
+          resolveQuery = resolve;
+        })
+      );
+
+      const query = queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        cache,
+      });
+      await flushPromises();
+
+      expect(isQueryFetching(cache, ["test"])).toBe(true);
+      expect(isQueryFetching(cache, ["other"])).toBe(false);
+
+      resolveQuery(mockQueryResult);
+      await query;
+
+      expect(isQueryFetching(cache, ["test"])).toBe(false);
+    });
+
+    it("should share a single fetch between concurrent callers", async () => {
+      const otherData = jest.fn();
+      const otherLoading = jest.fn();
+
+      await Promise.all([
+        queryWithCache({
+          queryKey: ["test"],
+          queryFn: fetchData,
+          onData: handleData,
+          onIsFetching: handleLoading,
+          cache,
+        }),
+        queryWithCache({
+          queryKey: ["test"],
+          queryFn: fetchData,
+          onData: otherData,
+          onIsFetching: otherLoading,
+          cache,
+        }),
+      ]);
+
+      expect(fetchData).toHaveBeenCalledTimes(1);
+      expect(handleData).toHaveBeenCalledWith(mockQueryResult);
+      expect(otherData).toHaveBeenCalledWith(mockQueryResult);
+      expect(otherLoading).toHaveBeenNthCalledWith(1, true);
+      expect(otherLoading).toHaveBeenNthCalledWith(2, false);
+    });
+
+    it.each([
+      [["a:b"], ["a", "b"]],
+      [
+        ["n", 1],
+        ["n", "1"],
+      ],
+    ])(
+      "should not share a fetch between %j and %j",
+      async (firstKey, secondKey) => {
+        const first = queryWithCache({
+          queryKey: firstKey,
+          queryFn: async () => "first",
+          onData: handleData,
+          cache,
+        });
+
+        await Promise.all([
+          first,
+          queryWithCache({
+            queryKey: secondKey,
+            queryFn: async () => "second",
+            onData: handleData,
+            cache,
+          }),
+        ]);
+
+        expect(cache.get(firstKey).data).toBe("first");
+        expect(cache.get(secondKey).data).toBe("second");
+      }
+    );
+
+    it("should report a shared failure to every caller", async () => {
+      const queryError = new Error("Failed to fetch data");
+      const otherError = jest.fn();
+      fetchData.mockRejectedValue(queryError);
+
+      await Promise.all([
+        queryWithCache({
+          queryKey: ["test"],
+          queryFn: fetchData,
+          onData: handleData,
+          onError: handleError,
+          cache,
+        }),
+        queryWithCache({
+          queryKey: ["test"],
+          queryFn: fetchData,
+          onData: handleData,
+          onError: otherError,
+          cache,
+        }),
+      ]);
+
+      expect(fetchData).toHaveBeenCalledTimes(1);
+      expect(handleError).toHaveBeenCalledWith(queryError);
+      expect(otherError).toHaveBeenCalledWith(queryError);
+    });
+
+    it("should deduplicate stale revalidations", async () => {
+      jest.useFakeTimers();
+      cache.set({ key: ["test"], data: { title: "cached" }, staleTime: 1000 });
+      jest.advanceTimersByTime(2000);
+
+      await Promise.all([
+        queryWithCache({
+          queryKey: ["test"],
+          queryFn: fetchData,
+          onData: handleData,
+          cache,
+        }),
+        queryWithCache({
+          queryKey: ["test"],
+          queryFn: fetchData,
+          onData: handleData,
+          cache,
+        }),
+      ]);
+
+      expect(fetchData).toHaveBeenCalledTimes(1);
+      expect(handleData).toHaveBeenLastCalledWith(mockQueryResult);
+    });
+
+    it("should fetch again once the previous request has settled", async () => {
+      await queryWithCache({
+        queryKey: ["other"],
+        queryFn: fetchData,
+        onData: handleData,
+        cache,
+      });
+      cache.invalidate(["other"]);
+      await queryWithCache({
+        queryKey: ["other"],
+        queryFn: fetchData,
+        onData: handleData,
+        cache,
+      });
+
+      expect(fetchData).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("fetchWithCache", () => {
+    it("should resolve with the fetched data on a miss", async () => {
+      const data = await fetchWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        cache,
+      });
+
+      expect(data).toEqual(mockQueryResult);
+      expect(cache.get(["test"]).data).toEqual(mockQueryResult);
+    });
+
+    it("should resolve with fresh cached data without fetching", async () => {
+      cache.set({ key: ["test"], data: { title: "cached" } });
+
+      const data = await fetchWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        cache,
+      });
+
+      expect(data).toEqual({ title: "cached" });
+      expect(fetchData).not.toHaveBeenCalled();
+    });
+
+    it("should fetch when the cached data is stale", async () => {
+      cache.set({ key: ["test"], data: { title: "cached" }, staleTime: -1 });
+
+      const data = await fetchWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        cache,
+      });
+
+      expect(data).toEqual(mockQueryResult);
+    });
+
+    it("should resolve with the fetched data when forced and unchanged", async () => {
+      cache.set({ key: ["test"], data: mockQueryResult });
+
+      const data = await fetchWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        cache,
+        force: true,
+      });
+
+      expect(fetchData).toHaveBeenCalledTimes(1);
+      expect(data).toEqual(mockQueryResult);
+    });
+
+    it("should reject when the fetch fails", async () => {
+      const queryError = new Error("Failed to fetch data");
+      fetchData.mockRejectedValue(queryError);
+
+      await expect(
+        fetchWithCache({ queryKey: ["test"], queryFn: fetchData, cache })
+      ).rejects.toThrow(queryError);
+    });
+  });
+
+  describe("ensureQueryData", () => {
+    it("should fetch on a miss", async () => {
+      const data = await ensureQueryData({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        cache,
+      });
+
+      expect(data).toEqual(mockQueryResult);
+    });
+
+    it("should resolve with stale data and revalidate in the background", async () => {
+      cache.set({ key: ["test"], data: { title: "cached" }, staleTime: -1 });
+
+      const data = await ensureQueryData({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        cache,
+      });
+
+      expect(data).toEqual({ title: "cached" });
+      await flushPromises();
+      expect(fetchData).toHaveBeenCalledTimes(1);
+      expect(cache.get(["test"]).data).toEqual(mockQueryResult);
+    });
+
+    it("should not revalidate fresh data", async () => {
+      cache.set({ key: ["test"], data: { title: "cached" } });
+
+      await ensureQueryData({ queryKey: ["test"], queryFn: fetchData, cache });
+      await flushPromises();
+
+      expect(fetchData).not.toHaveBeenCalled();
+    });
+
+    it("should report background failures to onError", async () => {
+      const queryError = new Error("Failed to fetch data");
+      fetchData.mockRejectedValue(queryError);
+      cache.set({ key: ["test"], data: { title: "cached" }, staleTime: -1 });
+
+      const data = await ensureQueryData({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onError: handleError,
+        cache,
+      });
+      await flushPromises();
+
+      expect(data).toEqual({ title: "cached" });
+      expect(handleError).toHaveBeenCalledWith(queryError);
+    });
+  });
+
+  describe("Network Mode", () => {
+    let handlePaused: jest.Mock;
+
+    beforeEach(() => {
+      handlePaused = jest.fn();
+      onlineManager.setOnline(false);
+    });
+
+    afterEach(() => {
+      onlineManager.setOnline(undefined);
+    });
+
+    it("should fetch while offline by default", async () => {
+      await queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        cache,
+      });
+
+      expect(fetchData).toHaveBeenCalledTimes(1);
+    });
+
+    it("should serve stale data without error and fetch once back online", async () => {
+      cache.set({ key: ["test"], data: { title: "cached" }, staleTime: -1 });
+
+      const query = queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        onError: handleError,
+        onIsPaused: handlePaused,
+        cache,
+        networkMode: "online",
+      });
+      await flushPromises();
+
+      expect(handleData).toHaveBeenCalledWith({ title: "cached" });
+      expect(handlePaused).toHaveBeenCalledWith(true);
+      expect(fetchData).not.toHaveBeenCalled();
+
+      onlineManager.setOnline(true);
+      await query;
+
+      expect(handlePaused).toHaveBeenLastCalledWith(false);
+      expect(fetchData).toHaveBeenCalledTimes(1);
+      expect(handleData).toHaveBeenLastCalledWith(mockQueryResult);
+      expect(handleError).not.toHaveBeenCalled();
+    });
+
+    it("should pause a fetch that fails while offline", async () => {
+      onlineManager.setOnline(true);
+      fetchData.mockImplementationOnce(async () => {
+        onlineManager.setOnline(false);
+        throw new Error("Network request failed");
+      });
+
+      const query = queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        onError: handleError,
+        onIsPaused: handlePaused,
+        cache,
+        networkMode: "online",
+      });
+      await flushPromises();
+
+      expect(handlePaused).toHaveBeenCalledWith(true);
+
+      onlineManager.setOnline(true);
+      await query;
+
+      expect(fetchData).toHaveBeenCalledTimes(2);
+      expect(handleData).toHaveBeenCalledWith(mockQueryResult);
+      expect(handleError).not.toHaveBeenCalled();
+    });
+
+    it("should cancel a paused fetch", async () => {
+      const controller = new AbortController();
+
+      const query = queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        onError: handleError,
+        onIsFetching: handleLoading,
+        cache,
+        networkMode: "online",
+        signal: controller.signal,
+      });
+      await flushPromises();
+      controller.abort();
+      await query;
+
+      expect(fetchData).not.toHaveBeenCalled();
+      expect(handleError).toHaveBeenCalledWith(expect.any(CancelledError));
+      expect(handleLoading).toHaveBeenLastCalledWith(false);
+    });
+  });
+
+  describe("Stats", () => {
+    it("should query a store without stats methods", async () => {
+      const asyncCache = new DelayedCacheStore(cache);
+      fetchData.mockRejectedValueOnce(new Error("Network error"));
+
+      await queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        onError: handleError,
+        cache: asyncCache,
+        retry: 1,
+        retryDelay: () => 0,
+      });
+
+      expect(asyncCache).not.toHaveProperty("recordEvent");
+      expect(handleError).not.toHaveBeenCalled();
+      expect(handleData).toHaveBeenCalledWith(mockQueryResult);
+    });
+
+    it("should record the queryFn duration", async () => {
+      jest.useFakeTimers();
+      fetchData.mockImplementation(async () => {
+        jest.advanceTimersByTime(250);
+        return mockQueryResult;
+      });
+
+      await queryWithCache({
+        queryKey: ["test", 1],
+        queryFn: fetchData,
+        onData: handleData,
+        cache,
+      });
+
+      expect(cache.getStats().byPrefix.test).toMatchObject({
+        misses: 1,
+        sets: 1,
+        fetches: 1,
+        fetchErrors: 0,
+        fetchDuration: 250,
+      });
+    });
+
+    it("should record every failed attempt", async () => {
+      fetchData.mockRejectedValue(new Error("Network error"));
+
+      await queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        onError: handleError,
+        cache,
+        retry: 1,
+        retryDelay: () => 0,
+      });
+
+      expect(cache.getStats().total).toMatchObject({
+        fetches: 2,
+        fetchErrors: 2,
+      });
+    });
+
+    it("should report fetch events to onEvent", async () => {
+      const onEvent = jest.fn();
+      cache.stopGarbageCollector();
+      cache = new CacheStoreInMemory({ onEvent });
+
+      await queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        cache,
+      });
+
+      expect(onEvent.mock.calls.map(([event]) => event.type)).toEqual([
+        "miss",
+        "fetch",
+        "set",
+      ]);
+      expect(onEvent).toHaveBeenCalledWith({
+        type: "fetch",
+        key: ["test"],
+        duration: expect.any(Number),
+      });
+    });
+
+    it("should not record cancelled fetches as errors", async () => {
+      const controller = new AbortController();
+      fetchData.mockImplementation(
+        ({ signal }) =>
+          new Promise((_, reject) =>
+            signal.addEventListener("abort", () => reject(signal.reason))
+          )
+      );
+
+      const query = queryWithCache({
+        queryKey: ["test"],
+        queryFn: fetchData,
+        onData: handleData,
+        onError: handleError,
+        cache,
+        signal: controller.signal,
+      });
+      await flushPromises();
+      controller.abort();
+      await query;
+
+      expect(cache.getStats().total.fetchErrors).toBe(0);
+    });
+  });
+
   describe("Cache Invalidation with Nested Keys", () => {
     const nestedKey = ["this", "is", "my", "key"];
     const nestedData = { value: "nested data" };
@@ -0,0 +1,159 @@
+import { createElement } from "react";
+import TestRenderer, { act, ReactTestRenderer } from "react-test-renderer";
+
+import { CacheKey } from "../src/cache.types";
+import { CacheStoreInMemory } from "../src/cache-store-in-memory";
+import { focusManager } from "../src/focus-manager";
+import {
+  UseQueryWithCacheResult,
+  useQueryWithCache,
+} from "../src/use-query-with-cache";
+
+(
+  globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+).IS_REACT_ACT_ENVIRONMENT = true;
+
+describe("useQueryWithCache", () => {
+  const mockQueryResult = { title: "new entry" };
+  let cache: CacheStoreInMemory;
+  let fetchData: jest.Mock;
+  let result: UseQueryWithCacheResult<unknown>;
+  let renderer: ReactTestRenderer;
+
+  const Query = ({ queryKey }: { queryKey: CacheKey }) => {
+    result = useQueryWithCache({ queryKey, queryFn: fetchData, cache });
+    return null;
+  };
+
+  const render = async (queryKey: CacheKey) => {
+    await act(async () => {
+      renderer = TestRenderer.create(createElement(Query, { queryKey }));
+    });
+  };
+
+  beforeEach(() => {
+    cache = new CacheStoreInMemory();
+    fetchData = jest.fn().mockResolvedValue(mockQueryResult);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    cache.stopGarbageCollector();
+  });
+
+  it("should fetch data on mount", async () => {
+    await render(["test"]);
+
+    expect(fetchData).toHaveBeenCalledTimes(1);
+    expect(result.data).toEqual(mockQueryResult);
+    expect(result.isFetching).toBe(false);
+    expect(result.isStale).toBe(false);
+    expect(result.error).toBeNull();
+  });
+
+  it("should render cached data without fetching", async () => {
+    cache.set({ key: ["test"], data: { title: "cached" } });
+
+    await render(["test"]);
+
+    expect(fetchData).not.toHaveBeenCalled();
+    expect(result.data).toEqual({ title: "cached" });
+  });
+
+  it("should fetch fresh data on refetch", async () => {
+    cache.set({ key: ["test"], data: { title: "cached" } });
+    await render(["test"]);
+
+    await act(() => result.refetch());
+
+    expect(fetchData).toHaveBeenCalledTimes(1);
+    expect(result.data).toEqual(mockQueryResult);
+  });
+
+  it("should expose query errors", async () => {
+    const queryError = new Error("Failed to fetch data");
+    fetchData.mockRejectedValue(queryError);
+
+    await render(["test"]);
+
+    expect(result.data).toBeNull();
+    expect(result.error).toBe(queryError);
+  });
+
+  it("should refetch when the serialized key changes", async () => {
+    await render(["test", 1]);
+
+    await act(async () => {
+      renderer.update(createElement(Query, { queryKey: ["test", 1] }));
+    });
+    expect(fetchData).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      renderer.update(createElement(Query, { queryKey: ["test", 2] }));
+    });
+    expect(fetchData).toHaveBeenCalledTimes(2);
+  });
+
+  it("should re-render when another writer updates the key", async () => {
+    await render(["test"]);
+
+    await act(async () => {
+      cache.set({ key: ["test"], data: { title: "updated" } });
+    });
+
+    expect(result.data).toEqual({ title: "updated" });
+  });
+
+  it("should refetch when the key is invalidated", async () => {
+    await render(["test"]);
+
+    await act(async () => {
+      cache.invalidate(["test"]);
+    });
+
+    expect(fetchData).toHaveBeenCalledTimes(2);
+    expect(result.data).toEqual(mockQueryResult);
+  });
+
+  it("should revalidate stale data when the app regains focus", async () => {
+    cache.set({ key: ["test"], data: { title: "cached" }, staleTime: 1000 });
+    await render(["test"]);
+    expect(fetchData).not.toHaveBeenCalled();
+
+    jest.spyOn(Date, "now").mockReturnValue(Date.now() + 2000);
+    await act(async () => {
+      focusManager.setFocused(false);
+      focusManager.setFocused(true);
+    });
+    await act(async () => {
+      renderer.unmount();
+      focusManager.setFocused(undefined);
+    });
+    jest.restoreAllMocks();
+
+    expect(fetchData).toHaveBeenCalledTimes(1);
+    expect(result.data).toEqual(mockQueryResult);
+  });
+
+  it("should ignore results that arrive after unmount", async () => {
+    let resolveQuery: (value: unknown) => void = () => undefined;
+    fetchData.mockImplementation(
+      () =>
+        new Promise((resolve) => {
+          resolveQuery = resolve;
+        })
+    );
+
+    await render(["test"]);
+    const { signal } = fetchData.mock.calls[0][0];
+
+    await act(async () => {
+      renderer.unmount();
+      resolveQuery(mockQueryResult);
+    });
+
+    expect(signal.aborted).toBe(true);
+    expect(result.data).toBeNull();
+    expect(cache.get(["test"]).data).toBeNull();
+  });
+});
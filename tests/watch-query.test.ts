@@ -0,0 +1,202 @@
+import { CacheStoreInMemory } from "../src/cache-store-in-memory";
+import { VisibilitySource } from "../src/visibility-source";
+import { WatchQueryHandle, watchQuery } from "../src/watch-query";
+
+/**
+ * Visibility source toggled by the tests.
+ */
+class ManualVisibilitySource implements VisibilitySource {
+  private listeners = new Set<(isVisible: boolean) => void>();
+
+  constructor(private visible = true) {}
+
+  isVisible() {
+    return this.visible;
+  }
+
+  subscribe(listener: (isVisible: boolean) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  setVisible(visible: boolean) {
+    this.visible = visible;
+    this.listeners.forEach((listener) => listener(visible));
+  }
+
+  get listenerCount() {
+    return this.listeners.size;
+  }
+}
+
+describe("watchQuery", () => {
+  let cache: CacheStoreInMemory;
+  let fetchData: jest.Mock;
+  let handleData: jest.Mock;
+  let visibilitySource: ManualVisibilitySource;
+  let handle: WatchQueryHandle;
+  let fetchCount: number;
+
+  const watch = (params: { refetchIntervalInBackground?: boolean } = {}) => {
+    handle = watchQuery({
+      queryKey: ["test"],
+      queryFn: fetchData,
+      onData: handleData,
+      cache,
+      refetchInterval: 1000,
+      visibilitySource,
+      ...params,
+    });
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    cache = new CacheStoreInMemory();
+    fetchCount = 0;
+    fetchData = jest.fn(async () => ({ count: ++fetchCount }));
+    handleData = jest.fn();
+    visibilitySource = new ManualVisibilitySource();
+  });
+
+  afterEach(() => {
+    handle?.stop();
+    cache.stopGarbageCollector();
+    jest.clearAllMocks();
+    jest.useRealTimers();
+  });
+
+  it("should emit fresh cached data without fetching", async () => {
+    cache.set({ key: ["test"], data: { count: 0 } });
+
+    watch();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(handleData).toHaveBeenCalledWith({ count: 0 });
+    expect(fetchData).not.toHaveBeenCalled();
+  });
+
+  it("should refetch on every interval", async () => {
+    watch();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(handleData).toHaveBeenLastCalledWith({ count: 1 });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(handleData).toHaveBeenLastCalledWith({ count: 2 });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(fetchData).toHaveBeenCalledTimes(3);
+    expect(handleData).toHaveBeenLastCalledWith({ count: 3 });
+  });
+
+  it("should skip a tick while a fetch is in flight", async () => {
+    fetchData.mockImplementation(
+      () =>
+        new Promise((resolve) =>
+          setTimeout(() => resolve({ count: ++fetchCount }), 1500)
+        )
+    );
+
+    watch();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(fetchData).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(fetchData).toHaveBeenCalledTimes(2);
+    expect(handleData).toHaveBeenLastCalledWith({ count: 1 });
+  });
+
+  it("should pause while hidden and refetch when visible again", async () => {
+    watch();
+    await jest.advanceTimersByTimeAsync(0);
+
+    visibilitySource.setVisible(false);
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(fetchData).toHaveBeenCalledTimes(1);
+
+    visibilitySource.setVisible(true);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fetchData).toHaveBeenCalledTimes(2);
+    expect(handleData).toHaveBeenLastCalledWith({ count: 2 });
+  });
+
+  it("should not refetch on becoming visible when no tick was missed", async () => {
+    watch();
+    await jest.advanceTimersByTimeAsync(0);
+
+    visibilitySource.setVisible(false);
+    visibilitySource.setVisible(true);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(fetchData).toHaveBeenCalledTimes(1);
+  });
+
+  it("should keep refetching in the background when enabled", async () => {
+    visibilitySource.setVisible(false);
+
+    watch({ refetchIntervalInBackground: true });
+    await jest.advanceTimersByTimeAsync(2000);
+
+    expect(fetchData).toHaveBeenCalledTimes(3);
+  });
+
+  it("should report errors and keep polling", async () => {
+    const handleError = jest.fn();
+    const queryError = new Error("Failed to fetch data");
+    fetchData.mockRejectedValueOnce(queryError);
+
+    handle = watchQuery({
+      queryKey: ["test"],
+      queryFn: fetchData,
+      onData: handleData,
+      onError: handleError,
+      cache,
+      refetchInterval: 1000,
+      visibilitySource,
+    });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(handleError).toHaveBeenCalledWith(queryError);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(handleData).toHaveBeenCalledWith({ count: 1 });
+  });
+
+  it("should refetch on demand", async () => {
+    watch();
+    await jest.advanceTimersByTimeAsync(0);
+
+    await handle.refetch();
+
+    expect(fetchData).toHaveBeenCalledTimes(2);
+    expect(handleData).toHaveBeenLastCalledWith({ count: 2 });
+  });
+
+  it("should stop polling and cancel the pending fetch", async () => {
+    const handleError = jest.fn();
+    fetchData.mockImplementation(
+      () =>
+        new Promise((resolve) =>
+          setTimeout(() => resolve({ count: ++fetchCount }), 500)
+        )
+    );
+
+    handle = watchQuery({
+      queryKey: ["test"],
+      queryFn: fetchData,
+      onData: handleData,
+      onError: handleError,
+      cache,
+      refetchInterval: 1000,
+      visibilitySource,
+    });
+    await jest.advanceTimersByTimeAsync(0);
+    handle.stop();
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(fetchData).toHaveBeenCalledTimes(1);
+    expect(handleData).not.toHaveBeenCalled();
+    expect(handleError).not.toHaveBeenCalled();
+    expect(visibilitySource.listenerCount).toBe(0);
+  });
+});